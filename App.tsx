@@ -1,30 +1,93 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { Upload, Image as ImageIcon, Download, ArrowLeft, AlertTriangle, Camera, Monitor, X } from 'lucide-react';
-import { AppState, AnalysisResult, RiskItem, RiskLevel, BoundingBox, ImageFilters } from './types';
-import { analyzeScreenshot } from './services/geminiService';
-import { downloadRedactedImage } from './utils/canvasUtils';
+import { Upload, Image as ImageIcon, Download, ArrowLeft, AlertTriangle, Camera, Monitor, X, FolderOpen, Check, Undo2, Redo2, Save, FileUp, History, RefreshCw, ClipboardPaste, Copy, Crop, Timer } from 'lucide-react';
+import { AppState, AnalysisResult, RiskItem, RiskLevel, BoundingBox, ImageFilters, ProviderSettings, MetadataReport, RedactionShape, RedactionStyle, ExportOptions, BatchItem, ReviewSnapshot, ProjectFile, RedactionPolicy, AuditReportFormat, VerificationResult, Point } from './types';
+import { analyzeWithCache, saveCachedReview } from './services/cacheService';
+import { loadProviderSettings, saveProviderSettings, loadExportOptions, saveExportOptions } from './services/settingsService';
+import { base64ToBytes, inspectMetadata } from './services/metadataService';
+import { createBatchItem, exportBatchZip } from './services/batchService';
+import { verifyExport } from './services/verificationService';
+import { describeAnalysisError } from './services/analysisErrors';
+import { AUDIT_FORMATS, buildAuditReport, formatAuditReport } from './services/reportService';
+import { clearAutosave, createProject, loadAutosave, parseProject, PROJECT_EXTENSION, projectFileName, saveAutosave, serializeProject } from './services/projectService';
+import { DEFAULT_FILTERS, captureVideoFrame, copyImageToClipboard, cropImage, cropThumbnails, renderExport, triggerDownload } from './utils/canvasUtils';
+import { collectDroppedImages, isImageFile, pastedImages, readClipboardImages } from './utils/fileUtils';
+import { useEditHistory } from './hooks/useEditHistory';
+import { iou, mapPointsToBox } from './utils/geometry';
+import { describeRisk } from './utils/accessibility';
+import { contentId, ensureUniqueIds } from './utils/riskIds';
 import Header from './components/Header';
 import Button from './components/Button';
-import AnalysisSidebar from './components/AnalysisSidebar';
+import AnalysisSidebar, { BulkPatch } from './components/AnalysisSidebar';
 import ImageViewer from './components/ImageViewer';
+import SettingsPanel from './components/SettingsPanel';
+import MetadataReportPanel from './components/MetadataReportPanel';
+import ExportDialog from './components/ExportDialog';
+import BatchPanel from './components/BatchPanel';
+import VerificationBadge from './components/VerificationBadge';
+import CaptureCropper from './components/CaptureCropper';
+import FindAndRedact from './components/FindAndRedact';
+
+const AUTOSAVE_DELAY_MS = 1000;
+// A search match overlapping a finding this much redacts that finding instead of adding a box
+const MATCH_IOU_THRESHOLD = 0.5;
+// Arrow keys move or resize the selected box this much (0-1000 units)
+const NUDGE_STEP = 1;
+const MIN_BOX_SIZE = 10;
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
     currentStep: 'UPLOAD',
     imageUrl: null,
     imageBase64: null,
+    mimeType: null,
+    fileName: null,
     analysisResult: null,
     error: null,
   });
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  // Briefly confirms "Copy Safe Image"
+  const [isCopied, setIsCopied] = useState(false);
   const [activeStream, setActiveStream] = useState<MediaStream | null>(null);
-  const [imageFilters, setImageFilters] = useState<ImageFilters>({
-    grayscale: 0,
-    sepia: 0,
-    brightness: 100,
-    contrast: 100,
-    blur: 0
-  });
+  // Seconds left before the snapshot is taken
+  const [countdown, setCountdown] = useState<number | null>(null);
+  // Snapshot waiting for a region to be picked; the stream stays open for "Capture again"
+  const [frozenFrame, setFrozenFrame] = useState<string | null>(null);
+  const [captureCrop, setCaptureCrop] = useState<BoundingBox | null>(null);
+  const [imageFilters, setImageFilters] = useState<ImageFilters>(DEFAULT_FILTERS);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [metadataReport, setMetadataReport] = useState<MetadataReport | null>(null);
+  // What was last exported, so the audit report matches the downloaded file
+  const [lastExport, setLastExport] = useState<{ dataUrl: string; fileName: string; analysisResult: AnalysisResult } | null>(null);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(loadExportOptions);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [activeBatchId, setActiveBatchId] = useState<string | null>(null);
+  const [isExportingBatch, setIsExportingBatch] = useState(false);
+  // Policy that produced the findings under review, saved with the project
+  const [reviewPolicy, setReviewPolicy] = useState<RedactionPolicy>(providerSettings.redactionPolicy);
+  const [savedProject, setSavedProject] = useState<ProjectFile | null>(null);
+  const [verification, setVerification] = useState<VerificationResult | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const history = useEditHistory<ReviewSnapshot>();
+  // Set while provider findings are still streaming into the review
+  const [isStreaming, setIsStreaming] = useState(false);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Cache key of the image under review (single-image reviews only) and whether it was restored from the cache
+  const [cacheHash, setCacheHash] = useState<string | null>(null);
+  const [isFromCache, setIsFromCache] = useState(false);
+  const [searchHighlights, setSearchHighlights] = useState<BoundingBox[]>([]);
+  // Sidebar click asking the viewer to zoom to a finding
+  const [focusRequest, setFocusRequest] = useState<{ id: string; at: number } | null>(null);
+  // Selected finding, shared by the viewer and the sidebar
+  const [selectedRiskId, setSelectedRiskId] = useState<string | null>(null);
+  const [hoveredRiskId, setHoveredRiskId] = useState<string | null>(null);
+  // Order of the sidebar cards, which J/K follow
+  const sidebarOrderRef = useRef<string[] | null>(null);
+  // Read out by screen readers through the live region
+  const [announcement, setAnnouncement] = useState('');
+  const batchAbortRef = useRef(new Map<string, AbortController>());
   const videoRef = useRef<HTMLVideoElement>(null);
 
   // --- Effects ---
@@ -36,17 +99,176 @@ const App: React.FC = () => {
     }
   }, [state.currentStep, activeStream]);
 
+  useEffect(() => {
+    // Sharing was stopped from the browser UI: leave unless a snapshot is still waiting
+    if (state.currentStep === 'CAPTURE' && !activeStream && !frozenFrame) {
+      setCountdown(null);
+      setState(prev => ({ ...prev, currentStep: 'UPLOAD' }));
+    }
+  }, [state.currentStep, activeStream, frozenFrame]);
+
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      freezeFrame();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [countdown]);
+
+  useEffect(() => {
+    // Batch queue: start queued items while there are free provider slots
+    const running = batchItems.filter(item => item.status === 'analyzing').length;
+    const free = Math.max(1, providerSettings.batchConcurrency) - running;
+    const next = batchItems.filter(item => item.status === 'queued').slice(0, Math.max(0, free));
+    if (next.length === 0) return;
+
+    const startedIds = new Set(next.map(item => item.id));
+    setBatchItems(prev => prev.map(item => startedIds.has(item.id) ? { ...item, status: 'analyzing' } : item));
+
+    next.forEach(item => {
+      const controller = new AbortController();
+      batchAbortRef.current.set(item.id, controller);
+      analyzeWithCache(item.imageBase64, item.mimeType, providerSettings, { signal: controller.signal })
+        .then(({ analysisResult }) => updateBatchItem(item.id, { status: 'ready', analysisResult, error: null }))
+        .catch((err: unknown) => {
+          // Removed items and resets abort their analysis; nothing is left to update
+          if (!controller.signal.aborted) updateBatchItem(item.id, { status: 'error', error: describeAnalysisError(err) });
+        })
+        .finally(() => batchAbortRef.current.delete(item.id));
+    });
+  }, [batchItems, providerSettings]);
+
+  useEffect(() => {
+    loadAutosave().then(setSavedProject);
+  }, []);
+
+  useEffect(() => {
+    // A verification result only describes the export it checked
+    setVerification(null);
+  }, [state.analysisResult, imageFilters]);
+
+  useEffect(() => {
+    // Autosave the review shortly after the last edit
+    const { currentStep, analysisResult, imageBase64, mimeType, fileName } = state;
+    if (currentStep !== 'REVIEW' || isStreaming || !analysisResult || !imageBase64 || !mimeType) return;
+    const timer = setTimeout(() => {
+      if (cacheHash) {
+        saveCachedReview(cacheHash, { analysisResult, filters: imageFilters })
+          .catch(err => console.warn("Could not cache the review:", err));
+      }
+      // The autosave slot holds the single-image review; a batch item must not overwrite it
+      if (activeBatchId) return;
+      const project = createProject({
+        fileName: fileName ?? 'screenshot.png',
+        mimeType,
+        imageBase64,
+        analysisResult,
+        filters: imageFilters,
+        policy: reviewPolicy,
+      });
+      saveAutosave(project)
+        .then(() => setSavedProject(project))
+        .catch(err => console.warn("Autosave failed:", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state, imageFilters, reviewPolicy, isStreaming, cacheHash, activeBatchId]);
+
+  useEffect(() => {
+    // A dialog on top owns the keyboard; Delete or R there must not edit the review behind it
+    if (state.currentStep !== 'REVIEW' || showSettings || showExportDialog) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave text fields to their own native undo and keys
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey)) {
+        if (!e.altKey) handleReviewKey(e);
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    if (state.currentStep !== 'UPLOAD') return;
+    // Ctrl+V anywhere on the upload screen analyzes the pasted screenshot
+    const handlePaste = (e: ClipboardEvent) => {
+      const images = pastedImages(e.clipboardData);
+      if (images.length === 0) return;
+      e.preventDefault();
+      handleOpenFiles(images);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  useEffect(() => {
+    if (!isCopied) return;
+    const timer = setTimeout(() => setIsCopied(false), 2000);
+    return () => clearTimeout(timer);
+  }, [isCopied]);
+
   // --- Handlers ---
 
-  const handleFileUpload = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  // Files from the picker, a drop or a paste: one image is analyzed, several start a batch
+  const handleOpenFiles = (files: File[]) => {
+    if (files.length > 1) {
+      handleStartBatch(files);
+      return;
+    }
+    const file = files[0];
     if (!file) return;
 
     if (!file.type.startsWith('image/')) {
       setState(prev => ({ ...prev, error: "Please upload a valid image file." }));
       return;
     }
+    openImageFile(file);
+  };
+
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    handleOpenFiles(files);
+  };
 
+  const handleDropUpload = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingFile(false);
+    const images = await collectDroppedImages(event.dataTransfer);
+    if (images.length === 0) {
+      setState(prev => ({ ...prev, error: "Please drop an image file or a folder of images." }));
+      return;
+    }
+    handleOpenFiles(images);
+  };
+
+  const handlePasteButton = async () => {
+    try {
+      const images = await readClipboardImages();
+      if (images.length === 0) {
+        setState(prev => ({ ...prev, error: "There is no image on the clipboard." }));
+        return;
+      }
+      handleOpenFiles(images);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: err.message || "Could not read the clipboard." }));
+    }
+  };
+
+  const openImageFile = useCallback((file: File) => {
     const reader = new FileReader();
     reader.onloadend = () => {
       const result = reader.result as string;
@@ -56,14 +278,114 @@ const App: React.FC = () => {
         currentStep: 'UPLOAD', // Stay on upload until analysis triggers
         imageUrl: result,
         imageBase64: base64Data,
+        mimeType: file.type,
+        fileName: file.name,
         analysisResult: null,
         error: null,
       });
       // Auto-trigger analysis for better UX
-      triggerAnalysis(base64Data);
+      triggerAnalysis(base64Data, file.type);
     };
     reader.readAsDataURL(file);
-  }, []);
+  }, [providerSettings]);
+
+  // --- Batch ---
+
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) => {
+    setBatchItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const handleStartBatch = async (files: File[]) => {
+    const images = files.filter(isImageFile);
+    if (images.length === 0) {
+      setState(prev => ({ ...prev, error: "No images found in the selection." }));
+      return;
+    }
+    const items = await Promise.all(images.map(createBatchItem));
+    setBatchItems(prev => [...prev, ...items]);
+    setState(prev => ({ ...prev, currentStep: 'BATCH', error: null }));
+  };
+
+  const handleDropBatch = async (dataTransfer: DataTransfer) => {
+    handleStartBatch(await collectDroppedImages(dataTransfer));
+  };
+
+  const handleReviewBatchItem = (id: string) => {
+    const item = batchItems.find(i => i.id === id);
+    if (!item) return;
+    setActiveBatchId(id);
+    setCacheHash(null);
+    history.clear();
+    setReviewPolicy(providerSettings.redactionPolicy);
+    setImageFilters(item.filters);
+    setState({
+      currentStep: 'REVIEW',
+      imageUrl: item.imageUrl,
+      imageBase64: item.imageBase64,
+      mimeType: item.mimeType,
+      fileName: item.fileName,
+      analysisResult: item.analysisResult,
+      error: null,
+    });
+  };
+
+  // Writes the review edits back to the batch item and returns to the queue,
+  // or moves on to the next item that still needs review when approving.
+  const handleFinishBatchReview = (approve: boolean) => {
+    if (!activeBatchId) return;
+    const current = batchItems.find(i => i.id === activeBatchId);
+    const updated = batchItems.map(item => item.id === activeBatchId ? {
+      ...item,
+      analysisResult: state.analysisResult,
+      filters: imageFilters,
+      status: approve ? 'approved' as const : item.status,
+    } : item);
+    setBatchItems(updated);
+    setMetadataReport(null);
+
+    const nextItem = approve
+      ? updated.find(item => item.status === 'ready' && item.id !== current?.id)
+      : undefined;
+    if (nextItem) {
+      setActiveBatchId(nextItem.id);
+      history.clear();
+      setImageFilters(nextItem.filters);
+      setState({
+        currentStep: 'REVIEW',
+        imageUrl: nextItem.imageUrl,
+        imageBase64: nextItem.imageBase64,
+        mimeType: nextItem.mimeType,
+        fileName: nextItem.fileName,
+        analysisResult: nextItem.analysisResult,
+        error: null,
+      });
+    } else {
+      setActiveBatchId(null);
+      setState(prev => ({ ...prev, currentStep: 'BATCH' }));
+    }
+  };
+
+  const handleApproveAllBatch = () => {
+    // Findings keep the redactions chosen by the default policy at analysis time
+    setBatchItems(prev => prev.map(item => item.status === 'ready' ? { ...item, status: 'approved' } : item));
+  };
+
+  const handleExportBatch = async () => {
+    const approved = batchItems.filter(item => item.status === 'approved');
+    if (approved.length === 0) return;
+    setIsExportingBatch(true);
+    try {
+      const zip = await exportBatchZip(approved, exportOptions);
+      const url = URL.createObjectURL(zip);
+      triggerDownload(url, `privacyguard-batch-${Date.now()}.zip`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      console.error("Batch Export Error:", err);
+      setState(prev => ({ ...prev, error: "Could not export the batch." }));
+    } finally {
+      setIsExportingBatch(false);
+    }
+  };
 
   const handleStartCamera = async () => {
     try {
@@ -78,13 +400,20 @@ const App: React.FC = () => {
 
   const handleStartScreen = async () => {
     try {
-      const stream = await navigator.mediaDevices.getDisplayMedia({ video: true });
+      // Offer windows first and keep this tab out of the picker (hints only; Chromium supports them)
+      const options = {
+        video: { displaySurface: 'window' },
+        audio: false,
+        selfBrowserSurface: 'exclude',
+        surfaceSwitching: 'include',
+      };
+      const stream = await navigator.mediaDevices.getDisplayMedia(options);
       setActiveStream(stream);
       setState(prev => ({ ...prev, currentStep: 'CAPTURE', error: null }));
       
       // Handle user stopping the share via browser UI
       stream.getVideoTracks()[0].onended = () => {
-        handleStopCapture();
+        setActiveStream(current => current === stream ? null : current);
       };
     } catch (err: any) {
       console.error("Screen Share Error:", err);
@@ -97,85 +426,188 @@ const App: React.FC = () => {
       activeStream.getTracks().forEach(track => track.stop());
       setActiveStream(null);
     }
-    setState(prev => ({ ...prev, currentStep: 'UPLOAD' }));
+    setCountdown(null);
+    setFrozenFrame(null);
+    setCaptureCrop(null);
+    setState(prev => ({ ...prev, currentStep: 'UPLOAD', error: null }));
   }, [activeStream]);
 
+  // The shutter starts the countdown; pressing it again during the countdown cancels it
   const handleCaptureImage = () => {
+    if (countdown !== null) {
+      setCountdown(null);
+      return;
+    }
+    if (providerSettings.captureDelaySeconds > 0) {
+      setCountdown(providerSettings.captureDelaySeconds);
+    } else {
+      freezeFrame();
+    }
+  };
+
+  const freezeFrame = () => {
     if (!videoRef.current) return;
-    const video = videoRef.current;
-    const canvas = document.createElement('canvas');
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.drawImage(video, 0, 0);
-      const result = canvas.toDataURL('image/png');
-      const base64Data = result.split(',')[1];
-      
-      // Cleanup stream
-      if (activeStream) {
-        activeStream.getTracks().forEach(track => track.stop());
-        setActiveStream(null);
+    try {
+      setFrozenFrame(captureVideoFrame(videoRef.current, activeStream?.getVideoTracks()[0]));
+      setCaptureCrop(null);
+      setState(prev => ({ ...prev, error: null }));
+    } catch (err: any) {
+      console.error("Capture Error:", err);
+      setState(prev => ({ ...prev, error: err.message || "Could not capture the frame." }));
+    }
+  };
+
+  const handleCaptureAgain = () => {
+    setFrozenFrame(null);
+    setCaptureCrop(null);
+  };
+
+  const handleCaptureDelayChange = (captureDelaySeconds: number) => {
+    const settings = { ...providerSettings, captureDelaySeconds };
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+  };
+
+  const handleAnalyzeCapture = async () => {
+    if (!frozenFrame) return;
+    let result = frozenFrame;
+    if (captureCrop) {
+      try {
+        result = await cropImage(frozenFrame, captureCrop);
+      } catch (err: any) {
+        console.error("Crop Error:", err);
+        setState(prev => ({ ...prev, error: err.message || "Could not crop the frame." }));
+        return;
       }
+    }
+    const base64Data = result.split(',')[1];
 
-      setState(prev => ({
-        ...prev,
-        imageUrl: result,
-        imageBase64: base64Data,
-        analysisResult: null,
-        error: null,
-      }));
-      
-      triggerAnalysis(base64Data);
+    // Cleanup stream
+    if (activeStream) {
+      activeStream.getTracks().forEach(track => track.stop());
+      setActiveStream(null);
     }
+    setFrozenFrame(null);
+    setCaptureCrop(null);
+
+    setState(prev => ({
+      ...prev,
+      imageUrl: result,
+      imageBase64: base64Data,
+      mimeType: 'image/png',
+      fileName: `capture-${Date.now()}.png`,
+      analysisResult: null,
+      error: null,
+    }));
+
+    triggerAnalysis(base64Data, 'image/png');
   };
 
-  const triggerAnalysis = async (base64: string) => {
+  const triggerAnalysis = async (base64: string, mimeType: string, refresh = false) => {
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setCacheHash(null);
     setState(prev => ({ ...prev, currentStep: 'ANALYZING', error: null }));
     try {
-      const result = await analyzeScreenshot(base64);
+      const { hash, analysisResult: result, filters, fromCache } = await analyzeWithCache(base64, mimeType, providerSettings, {
+        refresh,
+        signal: controller.signal,
+        // Open the review on the first streamed finding; edits wait for the full result
+        onPartialResult: risks => {
+          setIsStreaming(true);
+          setState(prev => ({ ...prev, currentStep: 'REVIEW', analysisResult: { summary: '', risks } }));
+        },
+      });
+      history.clear();
+      setCacheHash(hash);
+      setIsFromCache(fromCache);
+      if (filters) setImageFilters(filters);
+      setReviewPolicy(providerSettings.redactionPolicy);
       setState(prev => ({
         ...prev,
         currentStep: 'REVIEW',
         analysisResult: result,
       }));
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       setState(prev => ({
         ...prev,
         currentStep: 'UPLOAD',
-        error: err.message || "Analysis failed",
+        analysisResult: null,
+        error: describeAnalysisError(err),
       }));
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setIsStreaming(false);
+      }
     }
   };
 
-  const handleToggleRedaction = (id: string) => {
-    if (!state.analysisResult) return;
-    
-    const updatedRisks = state.analysisResult.risks.map(risk => 
-      risk.id === id ? { ...risk, isRedacted: !risk.isRedacted } : risk
-    );
+  // Analyzes a cached image again; the current edits carry over to the new findings
+  const handleReanalyze = async () => {
+    const present = currentSnapshot();
+    if (!cacheHash || !present || !state.imageBase64 || !state.mimeType) return;
+    await saveCachedReview(cacheHash, present).catch(err => console.warn("Could not cache the review:", err));
+    triggerAnalysis(state.imageBase64, state.mimeType, true);
+  };
 
-    setState(prev => ({
-      ...prev,
-      analysisResult: prev.analysisResult ? { ...prev.analysisResult, risks: updatedRisks } : null
-    }));
+  // --- Review edits (undoable) ---
+
+  const currentSnapshot = (): ReviewSnapshot | null =>
+    state.analysisResult ? { analysisResult: state.analysisResult, filters: imageFilters } : null;
+
+  const restoreSnapshot = (snapshot: ReviewSnapshot | null) => {
+    if (!snapshot) return;
+    setState(prev => ({ ...prev, analysisResult: snapshot.analysisResult }));
+    setImageFilters(snapshot.filters);
   };
 
-  const handleToggleVisibility = (id: string) => {
-    if (!state.analysisResult) return;
-    
-    const updatedRisks = state.analysisResult.risks.map(risk => 
-      risk.id === id ? { ...risk, isHidden: !risk.isHidden } : risk
-    );
+  const handleUndo = () => {
+    if (isStreaming) return;
+    const present = currentSnapshot();
+    if (present) restoreSnapshot(history.undo(present));
+  };
 
-    setState(prev => ({
+  const handleRedo = () => {
+    if (isStreaming) return;
+    const present = currentSnapshot();
+    if (present) restoreSnapshot(history.redo(present));
+  };
+
+  // Every risk edit goes through here so it lands in the undo history
+  const editRisks = (update: (risks: RiskItem[]) => RiskItem[], group?: string) => {
+    const before = currentSnapshot();
+    // The final result replaces streamed findings, which would drop the edit
+    if (!before || isStreaming) return;
+    history.record(before, group);
+    setState(prev => prev.analysisResult ? {
       ...prev,
-      analysisResult: prev.analysisResult ? { ...prev.analysisResult, risks: updatedRisks } : null
-    }));
+      analysisResult: { ...prev.analysisResult, risks: update(prev.analysisResult.risks) },
+    } : prev);
+  };
+
+  const updateRiskById = (id: string, patch: Partial<RiskItem>, group?: string) =>
+    editRisks(risks => risks.map(r => r.id === id ? { ...r, ...patch } : r), group);
+
+  const handleToggleRedaction = (id: string) => {
+    editRisks(risks => risks.map(r => r.id === id ? { ...r, isRedacted: !r.isRedacted } : r));
   };
 
-  const handleAddRisk = (box: BoundingBox) => {
+  const handleBulkUpdate = (ids: string[], patch: BulkPatch) => {
+    if (ids.length === 0) return;
+    const targets = new Set(ids);
+    editRisks(risks => risks.map(r => targets.has(r.id) ? { ...r, ...patch } : r));
+    const noun = `${ids.length} finding${ids.length === 1 ? '' : 's'}`;
+    announce(patch.isHidden ? `Ignored ${noun}` : `${patch.isRedacted ? 'Redacted' : 'Revealed'} ${noun}`);
+  };
+
+  const handleToggleVisibility = (id: string) => {
+    editRisks(risks => risks.map(r => r.id === id ? { ...r, isHidden: !r.isHidden } : r));
+  };
+
+  const handleAddRisk = (box: BoundingBox, points?: Point[]) => {
     const newRisk: RiskItem = {
       id: `custom-${Date.now()}`,
       type: 'Custom Risk',
@@ -184,78 +616,316 @@ const App: React.FC = () => {
       box_2d: box,
       isHidden: false,
       isRedacted: true,
+      isManual: true,
+      ...(points ? { shape: 'polygon' as const, points } : {}),
     };
+    editRisks(risks => [...risks, newRisk]);
+  };
 
-    setState(prev => ({
-      ...prev,
-      analysisResult: prev.analysisResult ? {
-        ...prev.analysisResult,
-        risks: [...prev.analysisResult.risks, newRisk]
-      } : null
-    }));
+  // Redacts every text search match: existing findings on the same words are
+  // switched on, the rest become manual boxes
+  const handleRedactMatches = (query: string, boxes: BoundingBox[]) => {
+    const isSame = (a: BoundingBox, b?: BoundingBox | null) => !!b && iou(a, b) >= MATCH_IOU_THRESHOLD;
+    editRisks(risks => ensureUniqueIds([
+      ...risks.map(risk => boxes.some(box => isSame(box, risk.box_2d)) ? { ...risk, isRedacted: true, isHidden: false } : risk),
+      ...boxes
+        .filter(box => !risks.some(risk => isSame(box, risk.box_2d)))
+        .map((box): RiskItem => ({
+          id: contentId('find', query, box),
+          type: 'Find & Redact',
+          description: `Matches "${query}"`,
+          riskLevel: RiskLevel.HIGH,
+          box_2d: box,
+          isHidden: false,
+          isRedacted: true,
+          isManual: true,
+        })),
+    ]));
   };
 
-  const handleUpdateRisk = (id: string, box: BoundingBox) => {
-    setState(prev => {
-      if (!prev.analysisResult) return prev;
-      return {
-        ...prev,
-        analysisResult: {
-          ...prev.analysisResult,
-          risks: prev.analysisResult.risks.map(r => r.id === id ? { ...r, box_2d: box } : r)
-        }
-      };
-    });
+  // `gesture` identifies one drag or resize, which is a single undo step.
+  // Points turn the risk into a polygon (e.g. a rotated rectangle).
+  const handleUpdateRisk = (id: string, box: BoundingBox, gesture?: string, points?: Point[]) => {
+    updateRiskById(id, points ? { box_2d: box, points, shape: 'polygon' } : { box_2d: box }, gesture && `box:${gesture}`);
   };
 
   const handleUpdateRiskText = (id: string, text: string) => {
-    setState(prev => {
-      if (!prev.analysisResult) return prev;
-      return {
-        ...prev,
-        analysisResult: {
-          ...prev.analysisResult,
-          risks: prev.analysisResult.risks.map(r => r.id === id ? { ...r, customText: text } : r)
-        }
-      };
-    });
+    updateRiskById(id, { customText: text }, `text:${id}`);
   };
 
   const handleUpdateRiskDetails = (id: string, type: string, description: string) => {
-    setState(prev => {
-      if (!prev.analysisResult) return prev;
-      return {
-        ...prev,
-        analysisResult: {
-          ...prev.analysisResult,
-          risks: prev.analysisResult.risks.map(r => r.id === id ? { ...r, type, description } : r)
-        }
-      };
-    });
+    updateRiskById(id, { type, description }, `details:${id}`);
+  };
+
+  const handleUpdateRiskStyle = (id: string, redactionStyle: RedactionStyle, redactionColor: string) => {
+    updateRiskById(id, { redactionStyle, redactionColor }, `style:${id}`);
+  };
+
+  const handleUpdateRiskShape = (id: string, shape: RedactionShape) => {
+    updateRiskById(id, { shape });
   };
 
   const handleDeleteRisk = (id: string) => {
-    setState(prev => {
-      if (!prev.analysisResult) return prev;
-      return {
-        ...prev,
-        analysisResult: {
-          ...prev.analysisResult,
-          risks: prev.analysisResult.risks.filter(r => r.id !== id)
-        }
-      };
-    });
+    const before = currentSnapshot();
+    const deleted = before?.analysisResult.risks.find(r => r.id === id);
+    if (!before || !deleted) return;
+    history.record(before);
+    setState(prev => prev.analysisResult ? {
+      ...prev,
+      analysisResult: {
+        ...prev.analysisResult,
+        risks: prev.analysisResult.risks.filter(r => r.id !== id),
+        deletedRisks: [...(prev.analysisResult.deletedRisks ?? []), deleted],
+      },
+    } : prev);
   };
 
-  const handleDownload = () => {
+  const announce = (text: string) => {
+    // A changed string is what makes screen readers repeat an identical message
+    setAnnouncement(prev => prev === text ? `${text}\u00a0` : text);
+  };
+
+  const handleShowRisk = (id: string) => {
+    setSelectedRiskId(id);
+    setFocusRequest({ id, at: Date.now() });
+  };
+
+  const nudgeRisk = (risk: RiskItem, key: string, resize: boolean) => {
+    const box = risk.box_2d!;
+    let dx = key === 'ArrowLeft' ? -NUDGE_STEP : key === 'ArrowRight' ? NUDGE_STEP : 0;
+    let dy = key === 'ArrowUp' ? -NUDGE_STEP : key === 'ArrowDown' ? NUDGE_STEP : 0;
+    let next: BoundingBox;
+    if (resize) {
+      next = { ...box, xmax: Math.max(box.xmin + MIN_BOX_SIZE, box.xmax + dx), ymax: Math.max(box.ymin + MIN_BOX_SIZE, box.ymax + dy) };
+    } else {
+      // Stop at the image edges
+      dx = Math.max(-box.xmin, Math.min(1000 - box.xmax, dx));
+      dy = Math.max(-box.ymin, Math.min(1000 - box.ymax, dy));
+      next = { xmin: box.xmin + dx, xmax: box.xmax + dx, ymin: box.ymin + dy, ymax: box.ymax + dy };
+    }
+    const points = risk.points && (resize ? mapPointsToBox(risk.points, box, next) : risk.points.map(p => ({ x: p.x + dx, y: p.y + dy })));
+    // Repeated presses on the same box are one undo step
+    handleUpdateRisk(risk.id, next, `keys-${risk.id}`, points);
+  };
+
+  // Keyboard review: J/K cycle findings, R redacts, Delete removes, arrows move (Shift resizes)
+  const handleDisplayOrderChange = useCallback((ids: string[]) => {
+    sidebarOrderRef.current = ids;
+  }, []);
+
+  const handleReviewKey = (e: KeyboardEvent) => {
+    const visible = state.analysisResult?.risks.filter(r => !r.isHidden) ?? [];
+    const order = sidebarOrderRef.current;
+    const risks = order ? order.map(id => visible.find(r => r.id === id)).filter((r): r is RiskItem => !!r) : visible;
+    const selected = risks.find(r => r.id === selectedRiskId);
+    const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+
+    if (key === 'j' || key === 'k') {
+      if (risks.length === 0) return;
+      const index = selected ? risks.indexOf(selected) : (key === 'j' ? -1 : 0);
+      const next = risks[(index + (key === 'j' ? 1 : -1) + risks.length) % risks.length];
+      setSelectedRiskId(next.id);
+      announce(`${describeRisk(next)}. ${risks.indexOf(next) + 1} of ${risks.length}.`);
+      return;
+    }
+    if (key === 'Escape') {
+      setSelectedRiskId(null);
+      return;
+    }
+    // Editing waits until the analysis has finished streaming
+    if (!selected || !selected.box_2d || isStreaming) return;
+
+    if (key === 'r') {
+      handleToggleRedaction(selected.id);
+      announce(`${selected.type} ${selected.isRedacted ? 'revealed' : 'redacted'}`);
+    } else if (key === 'Delete' || key === 'Backspace') {
+      e.preventDefault();
+      const index = risks.indexOf(selected);
+      handleDeleteRisk(selected.id);
+      setSelectedRiskId((risks[index + 1] ?? risks[index - 1])?.id ?? null);
+      announce(`${selected.type} deleted`);
+    } else if (key.startsWith('Arrow')) {
+      e.preventDefault();
+      nudgeRisk(selected, key, e.shiftKey);
+    }
+  };
+
+  const handleUpdateFilters = (filters: ImageFilters) => {
+    const before = currentSnapshot();
+    if (before) {
+      // Dragging one slider is a single step
+      const changed = (Object.keys(filters) as Array<keyof ImageFilters>).filter(key => filters[key] !== imageFilters[key]);
+      history.record(before, `filters:${changed.join(',')}`);
+    }
+    setImageFilters(filters);
+  };
+
+  /** Runs export verification when enabled. Resolves false when block mode withholds the image. */
+  const verifyBeforeRelease = async (dataUrl: string, risks: RiskItem[]) => {
+    const mode = providerSettings.verifyExport;
+    if (mode === 'off') return true;
+    setIsVerifying(true);
+    let leaks;
+    try {
+      leaks = await verifyExport(dataUrl, risks, providerSettings);
+    } finally {
+      setIsVerifying(false);
+    }
+    const blocked = mode === 'block' && leaks.length > 0;
+    setVerification({ passed: leaks.length === 0, leaks, blocked });
+    return !blocked;
+  };
+
+  // Same pixels as the download, as PNG, for pasting straight into chat apps
+  const handleCopySafeImage = async () => {
     if (!state.imageUrl || !state.analysisResult) return;
+    const imageUrl = state.imageUrl;
+    const risks = state.analysisResult.risks;
     setIsProcessing(true);
-    downloadRedactedImage(state.imageUrl, state.analysisResult.risks, imageFilters, () => {
+    const png = (async () => {
+      const { dataUrl } = await renderExport(imageUrl, risks, imageFilters, { ...exportOptions, format: 'image/png' }, {
+        mimeType: state.mimeType,
+        fileName: state.fileName,
+      });
+      if (!await verifyBeforeRelease(dataUrl, risks)) throw new Error("Verification found possible leaks, so the image was not copied.");
+      return (await fetch(dataUrl)).blob();
+    })();
+    try {
+      await copyImageToClipboard(png);
+      setIsCopied(true);
+      announce("Safe image copied to the clipboard");
+    } catch (err: any) {
+      console.error("Copy Error:", err);
+      // A failed render or verification explains itself better than the clipboard's error
+      const reason = await png.then(() => err, renderError => renderError);
+      setState(prev => ({ ...prev, error: reason?.message || "Could not copy the image." }));
+    } finally {
       setIsProcessing(false);
+    }
+  };
+
+  const handleDownload = async (options: ExportOptions) => {
+    if (!state.imageUrl || !state.analysisResult) return;
+    setIsProcessing(true);
+    saveExportOptions(options);
+    setExportOptions(options);
+    const originalBase64 = state.imageBase64;
+    const analysisResult = state.analysisResult;
+    const mode = providerSettings.verifyExport;
+    try {
+      const { dataUrl, fileName } = await renderExport(state.imageUrl, analysisResult.risks, imageFilters, options, {
+        mimeType: state.mimeType,
+        fileName: state.fileName,
+      });
+
+      if (mode !== 'off') {
+        setShowExportDialog(false);
+        if (!await verifyBeforeRelease(dataUrl, analysisResult.risks)) return;
+      }
+
+      triggerDownload(dataUrl, fileName);
+      setShowExportDialog(false);
+      setLastExport({ dataUrl, fileName, analysisResult });
+      setMetadataReport({
+        removed: originalBase64 ? inspectMetadata(base64ToBytes(originalBase64)) : [],
+        remaining: inspectMetadata(base64ToBytes(dataUrl.split(',')[1])),
+      });
+    } catch (err: any) {
+      console.error("Export Error:", err);
+      setShowExportDialog(false);
+      setState(prev => ({
+        ...prev,
+        error: mode !== 'off' ? `Could not verify the export. ${describeAnalysisError(err)}` : "Could not export the image.",
+      }));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleDownloadAuditReport = async (format: AuditReportFormat) => {
+    if (!lastExport || !state.imageBase64) return;
+    try {
+      const report = await buildAuditReport({
+        fileName: state.fileName ?? 'screenshot',
+        exportFileName: lastExport.fileName,
+        analysisResult: lastExport.analysisResult,
+        policyName: reviewPolicy.name,
+        originalBase64: state.imageBase64,
+        exportedDataUrl: lastExport.dataUrl,
+        thumbnails: await cropThumbnails(lastExport.dataUrl, lastExport.analysisResult.risks),
+      });
+      const { extension, mimeType } = AUDIT_FORMATS.find(f => f.value === format)!;
+      const url = URL.createObjectURL(new Blob([formatAuditReport(report, format)], { type: mimeType }));
+      triggerDownload(url, `${lastExport.fileName.replace(/\.[^.]+$/, '')}.${extension}`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err: any) {
+      console.error("Audit Report Error:", err);
+      setState(prev => ({ ...prev, error: "Could not create the audit report." }));
+    }
+  };
+
+  // --- Projects ---
+
+  const openProject = (project: ProjectFile) => {
+    setMetadataReport(null);
+    setActiveBatchId(null);
+    setCacheHash(null);
+    history.clear();
+    setImageFilters(project.filters);
+    setReviewPolicy(project.policy);
+    setState({
+      currentStep: 'REVIEW',
+      imageUrl: `data:${project.mimeType};base64,${project.imageBase64}`,
+      imageBase64: project.imageBase64,
+      mimeType: project.mimeType,
+      fileName: project.fileName,
+      analysisResult: project.analysisResult,
+      error: null,
+    });
+  };
+
+  const handleImportProject = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      openProject(parseProject(await file.text()));
+    } catch (err: any) {
+      setState(prev => ({ ...prev, error: err.message || "Could not open the project." }));
+    }
+  };
+
+  const handleSaveProject = () => {
+    const { analysisResult, imageBase64, mimeType, fileName } = state;
+    if (!analysisResult || !imageBase64 || !mimeType) return;
+    const project = createProject({
+      fileName: fileName ?? 'screenshot.png',
+      mimeType,
+      imageBase64,
+      analysisResult,
+      filters: imageFilters,
+      policy: reviewPolicy,
     });
+    const url = URL.createObjectURL(new Blob([serializeProject(project)], { type: 'application/json' }));
+    triggerDownload(url, projectFileName(project));
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleDiscardAutosave = () => {
+    setSavedProject(null);
+    clearAutosave().catch(err => console.warn("Could not clear autosave:", err));
   };
 
   const handleReset = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setIsStreaming(false);
+    setCacheHash(null);
+    setSelectedRiskId(null);
+    batchAbortRef.current.forEach(controller => controller.abort());
+    setMetadataReport(null);
+    setBatchItems([]);
+    setActiveBatchId(null);
     // Ensure any lingering streams are stopped
     if (activeStream) {
       activeStream.getTracks().forEach(track => track.stop());
@@ -265,41 +935,93 @@ const App: React.FC = () => {
       currentStep: 'UPLOAD',
       imageUrl: null,
       imageBase64: null,
+      mimeType: null,
+      fileName: null,
       analysisResult: null,
       error: null,
     });
-    setImageFilters({
-      grayscale: 0,
-      sepia: 0,
-      brightness: 100,
-      contrast: 100,
-      blur: 0
-    });
+    setImageFilters(DEFAULT_FILTERS);
+    history.clear();
+  };
+
+  const handleSaveSettings = (settings: ProviderSettings) => {
+    saveProviderSettings(settings);
+    setProviderSettings(settings);
+    setShowSettings(false);
   };
 
   // --- Render Steps ---
 
   const renderUpload = () => (
-    <div className="flex flex-col items-center justify-center h-full p-6 animate-fade-in overflow-y-auto">
-      <div className="max-w-xl w-full bg-gray-800/50 border-2 border-dashed border-gray-600 rounded-2xl p-10 text-center transition-colors hover:border-blue-500 hover:bg-gray-800/80 group">
+    <div
+      className="flex flex-col items-center justify-center h-full p-6 animate-fade-in overflow-y-auto"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setIsDraggingFile(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+      }}
+      onDrop={handleDropUpload}
+    >
+      <div className={`max-w-xl w-full border-2 border-dashed rounded-2xl p-10 text-center transition-colors hover:border-blue-500 hover:bg-gray-800/80 group ${isDraggingFile ? 'border-blue-500 bg-blue-500/10' : 'border-gray-600 bg-gray-800/50'}`}>
         <div className="bg-gray-700 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-6 group-hover:scale-110 transition-transform">
           <ImageIcon className="w-8 h-8 text-blue-400" />
         </div>
         <h2 className="text-2xl font-bold text-white mb-2">Drop your screenshot here</h2>
         <p className="text-gray-400 mb-8">
           We'll analyze it for sensitive data like emails, keys, and names.
+          <br />
+          Or paste one with <kbd className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-200 text-xs">Ctrl</kbd>+<kbd className="px-1.5 py-0.5 rounded bg-gray-700 text-gray-200 text-xs">V</kbd>.
         </p>
         
         <div className="relative inline-block w-full sm:w-auto mb-8">
           <input 
             type="file" 
             accept="image/*" 
+            multiple
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
             onChange={handleFileUpload}
           />
           <Button variant="primary" className="w-full sm:w-auto relative z-0">
             <Upload className="w-4 h-4" />
-            Select Image
+            Select Images
+          </Button>
+        </div>
+
+        <div className="relative inline-block w-full sm:w-auto mb-8 sm:ml-3">
+          <input
+            type="file"
+            // Directory picking is not in the standard input typings
+            {...({ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>)}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+            onChange={(e) => { handleStartBatch(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+          />
+          <Button variant="secondary" className="w-full sm:w-auto relative z-0">
+            <FolderOpen className="w-4 h-4" />
+            Select Folder
+          </Button>
+        </div>
+
+        <div className="relative inline-block w-full sm:w-auto mb-8 sm:ml-3">
+          <input
+            type="file"
+            accept={`${PROJECT_EXTENSION},application/json`}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+            onChange={handleImportProject}
+          />
+          <Button variant="secondary" className="w-full sm:w-auto relative z-0">
+            <FileUp className="w-4 h-4" />
+            Open Project
+          </Button>
+        </div>
+
+        <div className="relative inline-block w-full sm:w-auto mb-8 sm:ml-3">
+          <Button variant="secondary" onClick={handlePasteButton} className="w-full sm:w-auto" title="Analyze the image on the clipboard">
+            <ClipboardPaste className="w-4 h-4" />
+            Paste
           </Button>
         </div>
         
@@ -323,6 +1045,18 @@ const App: React.FC = () => {
         <p className="mt-6 text-xs text-gray-500">Supported formats: PNG, JPG, WebP</p>
       </div>
 
+      {savedProject && (
+        <div className="mt-6 flex items-center gap-3 bg-gray-800/60 px-4 py-3 rounded-lg border border-gray-700 max-w-xl w-full">
+          <History className="w-4 h-4 text-blue-400 flex-shrink-0" />
+          <div className="flex-1 min-w-0 text-sm">
+            <p className="text-gray-200 truncate">Unfinished review: {savedProject.fileName}</p>
+            <p className="text-xs text-gray-500">Saved {new Date(savedProject.savedAt).toLocaleString()}</p>
+          </div>
+          <Button variant="ghost" onClick={handleDiscardAutosave}>Discard</Button>
+          <Button variant="secondary" onClick={() => openProject(savedProject)}>Resume</Button>
+        </div>
+      )}
+
       {state.error && (
         <div className="mt-6 flex items-center gap-2 text-red-400 bg-red-900/20 px-4 py-2 rounded-lg border border-red-900/50 max-w-xl w-full">
           <AlertTriangle className="w-4 h-4 flex-shrink-0" />
@@ -335,32 +1069,98 @@ const App: React.FC = () => {
   const renderCapture = () => (
     <div className="flex flex-col items-center justify-center h-full bg-black p-4 relative">
       <div className="relative w-full max-w-5xl aspect-video bg-gray-900 rounded-2xl overflow-hidden shadow-2xl ring-1 ring-gray-800">
+        {/* Stays mounted behind the frozen frame so "Capture again" reuses the stream */}
         <video 
           ref={videoRef} 
           autoPlay 
           playsInline 
           muted 
-          className="w-full h-full object-contain"
+          className={`w-full h-full object-contain ${frozenFrame ? 'hidden' : ''}`}
         />
+        {frozenFrame && (
+          <div className="absolute inset-0 px-4 pt-4 pb-28">
+            <CaptureCropper imageUrl={frozenFrame} crop={captureCrop} onChange={setCaptureCrop} />
+          </div>
+        )}
+        {countdown !== null && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none" role="timer" aria-live="assertive">
+            <span className="text-8xl font-bold text-white drop-shadow-lg">{countdown}</span>
+          </div>
+        )}
         
         <div className="absolute inset-x-0 bottom-0 p-6 bg-gradient-to-t from-black/80 to-transparent flex items-center justify-center gap-6">
           <Button variant="secondary" onClick={handleStopCapture} className="bg-white/10 hover:bg-white/20 border-white/10 text-white backdrop-blur-md">
             <X className="w-4 h-4" /> Cancel
           </Button>
-          <button 
-            onClick={handleCaptureImage}
-            className="h-16 w-16 rounded-full bg-white border-4 border-gray-300 flex items-center justify-center hover:scale-105 active:scale-95 transition-all focus:outline-none ring-2 ring-offset-2 ring-offset-black ring-white"
-            title="Take Snapshot"
-          >
-             <div className="w-12 h-12 rounded-full bg-red-500"></div>
-          </button>
-          <div className="w-[90px]"></div> {/* Spacer for centering */}
+          {frozenFrame ? (
+            <>
+              <Button variant="secondary" onClick={handleCaptureAgain} disabled={!activeStream} className="bg-white/10 hover:bg-white/20 border-white/10 text-white backdrop-blur-md" title={activeStream ? undefined : 'Sharing has stopped'}>
+                <RefreshCw className="w-4 h-4" /> Capture again
+              </Button>
+              <Button variant="primary" onClick={handleAnalyzeCapture}>
+                <Crop className="w-4 h-4" />
+                {captureCrop ? 'Analyze Region' : 'Analyze Full Frame'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <button 
+                onClick={handleCaptureImage}
+                className="h-16 w-16 rounded-full bg-white border-4 border-gray-300 flex items-center justify-center hover:scale-105 active:scale-95 transition-all focus:outline-none ring-2 ring-offset-2 ring-offset-black ring-white"
+                title={countdown !== null ? 'Cancel Countdown' : 'Take Snapshot'}
+              >
+                 <div className="w-12 h-12 rounded-full bg-red-500"></div>
+              </button>
+              <label className="flex items-center gap-1.5 text-sm text-white" title="Delay before the snapshot">
+                <Timer className="w-4 h-4" />
+                <select
+                  value={providerSettings.captureDelaySeconds}
+                  onChange={(e) => handleCaptureDelayChange(Number(e.target.value))}
+                  disabled={countdown !== null}
+                  className="bg-white/10 border border-white/10 rounded px-1.5 py-1 text-sm text-white backdrop-blur-md outline-none"
+                  aria-label="Capture delay"
+                >
+                  {[...new Set([0, 3, 5, 10, providerSettings.captureDelaySeconds])].sort((a, b) => a - b).map(seconds => (
+                    <option key={seconds} value={seconds} className="bg-gray-900">{seconds === 0 ? 'No delay' : `${seconds}s`}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
         </div>
       </div>
-      <p className="mt-4 text-gray-500 text-sm">Align your content and click the capture button</p>
+      {state.error ? (
+        <p className="mt-4 text-red-400 text-sm">{state.error}</p>
+      ) : (
+        <p className="mt-4 text-gray-500 text-sm">
+          {frozenFrame
+            ? 'Drag over the frame to analyze only part of it, or analyze the whole frame'
+            : countdown !== null
+              ? 'Switch to the window you want to capture'
+              : 'Align your content and click the capture button'}
+        </p>
+      )}
     </div>
   );
 
+  const renderBatch = () => (
+    <BatchPanel
+      items={batchItems}
+      isExporting={isExportingBatch}
+      onAddFiles={handleStartBatch}
+      onDropFiles={handleDropBatch}
+      onReview={handleReviewBatchItem}
+      onRemove={(id) => {
+        batchAbortRef.current.get(id)?.abort();
+        setBatchItems(prev => prev.filter(item => item.id !== id));
+      }}
+      onRetry={(id) => updateBatchItem(id, { status: 'queued', error: null })}
+      onApproveAll={handleApproveAllBatch}
+      onExportZip={handleExportBatch}
+      onBack={handleReset}
+    />
+  );
+
   const renderAnalyzing = () => (
     <div className="flex flex-col items-center justify-center h-full text-center p-8 animate-fade-in">
       <div className="relative w-24 h-24 mb-8">
@@ -380,6 +1180,10 @@ const App: React.FC = () => {
       <p className="text-gray-400 max-w-md">
         Our AI is scanning for text, UI elements, and metadata that might compromise your privacy.
       </p>
+      <Button variant="secondary" onClick={handleReset} className="mt-8">
+        <X className="w-4 h-4" />
+        Cancel
+      </Button>
     </div>
   );
 
@@ -389,31 +1193,112 @@ const App: React.FC = () => {
     return (
       <div className="flex flex-col lg:flex-row h-full overflow-hidden animate-fade-in">
         <div className="flex-1 relative bg-[#0f1117] h-[50vh] lg:h-auto order-2 lg:order-1">
-           <div className="absolute top-4 left-4 z-10 pl-12"> {/* Offset for filters button */}
-              <Button variant="secondary" onClick={handleReset} className="shadow-lg bg-gray-900/80 backdrop-blur">
+           <div className="absolute top-4 left-4 z-10 pl-12 flex gap-2"> {/* Offset for filters button */}
+              <Button variant="secondary" onClick={activeBatchId ? () => handleFinishBatchReview(false) : handleReset} className="shadow-lg bg-gray-900/80 backdrop-blur">
                 <ArrowLeft className="w-4 h-4" />
                 Back
               </Button>
+              <div className="flex rounded-lg shadow-lg bg-gray-900/80 backdrop-blur border border-gray-700">
+                <button
+                  onClick={handleUndo}
+                  disabled={!history.canUndo}
+                  className="p-2 text-gray-300 hover:text-white disabled:opacity-30 disabled:hover:text-gray-300"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={!history.canRedo}
+                  className="p-2 text-gray-300 hover:text-white disabled:opacity-30 disabled:hover:text-gray-300"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+              </div>
+              <FindAndRedact
+                imageUrl={state.imageUrl}
+                disabled={isStreaming}
+                onHighlight={setSearchHighlights}
+                onRedactAll={handleRedactMatches}
+              />
            </div>
            
-           <div className="absolute top-4 right-4 z-10">
-              <Button variant="primary" onClick={handleDownload} isLoading={isProcessing} className="shadow-lg">
-                <Download className="w-4 h-4" />
-                Download Safe Image
-              </Button>
+           <div className="absolute top-4 right-4 z-10 flex gap-2">
+              {activeBatchId && (
+                <Button variant="secondary" onClick={() => handleFinishBatchReview(true)} className="shadow-lg bg-gray-900/80 backdrop-blur">
+                  <Check className="w-4 h-4" />
+                  Approve & Next
+                </Button>
+              )}
+              {isStreaming ? (
+                <Button variant="secondary" onClick={handleReset} className="shadow-lg bg-gray-900/80 backdrop-blur" title="Stop the analysis">
+                  <X className="w-4 h-4" />
+                  Cancel Analysis
+                </Button>
+              ) : (
+                <>
+                  {cacheHash && isFromCache && (
+                    <Button variant="secondary" onClick={handleReanalyze} className="shadow-lg bg-gray-900/80 backdrop-blur" title="Restored from an earlier review of this image. Analyze it again and keep your edits.">
+                      <RefreshCw className="w-4 h-4" />
+                      Re-analyze
+                    </Button>
+                  )}
+                  <Button variant="secondary" onClick={handleSaveProject} className="shadow-lg bg-gray-900/80 backdrop-blur" title="Save the review as a project file">
+                    <Save className="w-4 h-4" />
+                    Save Project
+                  </Button>
+                  <VerificationBadge result={verification} isVerifying={isVerifying} />
+                  <Button variant="secondary" onClick={handleCopySafeImage} disabled={isProcessing} className="shadow-lg bg-gray-900/80 backdrop-blur" title="Copy the redacted image as PNG, ready to paste">
+                    {isCopied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                    {isCopied ? 'Copied' : 'Copy Safe Image'}
+                  </Button>
+                  <Button variant="primary" onClick={() => setShowExportDialog(true)} className="shadow-lg">
+                    <Download className="w-4 h-4" />
+                    Download Safe Image
+                  </Button>
+                </>
+              )}
+              {metadataReport && (
+                <div className="absolute right-0 top-full mt-2">
+                  <MetadataReportPanel
+                    report={metadataReport}
+                    onDownloadAudit={handleDownloadAuditReport}
+                    onClose={() => setMetadataReport(null)}
+                  />
+                </div>
+              )}
            </div>
 
+           {state.error && (
+             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 text-red-300 bg-red-900/80 backdrop-blur px-4 py-2 rounded-lg border border-red-800 shadow-lg text-sm">
+               <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+               <span>{state.error}</span>
+               <button onClick={() => setState(prev => ({ ...prev, error: null }))} className="text-red-400 hover:text-white" title="Dismiss">
+                 <X className="w-4 h-4" />
+               </button>
+             </div>
+           )}
+
            <ImageViewer 
              imageUrl={state.imageUrl} 
              risks={state.analysisResult.risks}
              filters={imageFilters}
+             selectedId={selectedRiskId}
+             onSelectRisk={setSelectedRiskId}
+             hoveredId={hoveredRiskId}
+             onHoverRisk={setHoveredRiskId}
              onToggleRedaction={handleToggleRedaction}
              onAddRisk={handleAddRisk}
              onUpdateRisk={handleUpdateRisk}
              onUpdateRiskText={handleUpdateRiskText}
              onUpdateRiskDetails={handleUpdateRiskDetails}
+             onUpdateRiskStyle={handleUpdateRiskStyle}
+             onUpdateRiskShape={handleUpdateRiskShape}
              onDeleteRisk={handleDeleteRisk}
-             onUpdateFilters={setImageFilters}
+             onUpdateFilters={handleUpdateFilters}
+             highlights={searchHighlights}
+             focusRequest={focusRequest}
            />
         </div>
 
@@ -421,8 +1306,16 @@ const App: React.FC = () => {
           <AnalysisSidebar 
             summary={state.analysisResult.summary} 
             risks={state.analysisResult.risks}
+            isAnalyzing={isStreaming}
             onToggleRedaction={handleToggleRedaction}
             onToggleVisibility={handleToggleVisibility}
+            selectedId={selectedRiskId}
+            onSelectRisk={setSelectedRiskId}
+            onShowRisk={handleShowRisk}
+            hoveredId={hoveredRiskId}
+            onHoverRisk={setHoveredRiskId}
+            onBulkUpdate={handleBulkUpdate}
+            onDisplayOrderChange={handleDisplayOrderChange}
           />
         </div>
       </div>
@@ -431,13 +1324,32 @@ const App: React.FC = () => {
 
   return (
     <div className="h-screen flex flex-col bg-[#111827]">
-      {state.currentStep !== 'CAPTURE' && <Header />}
+      {state.currentStep !== 'CAPTURE' && <Header onOpenSettings={() => setShowSettings(true)} />}
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
       <main className="flex-1 overflow-hidden relative">
         {state.currentStep === 'UPLOAD' && renderUpload()}
         {state.currentStep === 'CAPTURE' && renderCapture()}
         {state.currentStep === 'ANALYZING' && renderAnalyzing()}
         {state.currentStep === 'REVIEW' && renderReview()}
+        {state.currentStep === 'BATCH' && renderBatch()}
       </main>
+      {showSettings && (
+        <SettingsPanel
+          settings={providerSettings}
+          onSave={handleSaveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+      {showExportDialog && (
+        <ExportDialog
+          options={exportOptions}
+          sourceMimeType={state.mimeType}
+          sourceFileName={state.fileName}
+          isProcessing={isProcessing}
+          onExport={handleDownload}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,44 @@
+import { PNG } from "pngjs";
+import jpeg from "jpeg-js";
+import { PixelBuffer } from "../utils/redaction";
+
+// Node-side image decoding/encoding, standing in for the browser canvas
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+export const mimeTypeForPath = (path: string): string | null => {
+  const extension = path.slice(path.lastIndexOf('.')).toLowerCase();
+  return MIME_TYPES[extension] ?? null;
+};
+
+export const decodeImage = (bytes: Uint8Array, mimeType: string): PixelBuffer => {
+  if (mimeType === 'image/png') {
+    const png = PNG.sync.read(Buffer.from(bytes));
+    return { width: png.width, height: png.height, data: new Uint8Array(png.data) };
+  }
+  if (mimeType === 'image/jpeg') {
+    const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+    return { width: decoded.width, height: decoded.height, data: decoded.data };
+  }
+  throw new Error(`Unsupported image type for headless use: ${mimeType}`);
+};
+
+/** Encodes pixels only, so nothing from the source file's metadata survives. */
+export const encodeImage = (image: PixelBuffer, mimeType: string, quality = 0.92): Buffer => {
+  if (mimeType === 'image/jpeg') {
+    return Buffer.from(jpeg.encode({ width: image.width, height: image.height, data: image.data }, Math.round(quality * 100)).data);
+  }
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  return PNG.sync.write(png);
+};
+
+export const decodeDataUrl = async (imageUrl: string): Promise<PixelBuffer> => {
+  const [header, base64] = imageUrl.split(',');
+  const mimeType = header.slice('data:'.length, header.indexOf(';'));
+  return decodeImage(Buffer.from(base64, 'base64'), mimeType);
+};
@@ -0,0 +1,194 @@
+import { parseArgs } from "node:util";
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve } from "node:path";
+import { LocalDetectionMode, ProviderId, ProviderSettings, RiskItem, RiskLevel } from "../types";
+import { analyzeScreenshot, PROVIDERS } from "../services/analysisService";
+import { terminateOcr } from "../services/ocrService";
+import { DEFAULT_PROVIDER_SETTINGS } from "../services/settingsService";
+import { parseRedactionPolicy } from "../services/policyService";
+import { parseDictionary } from "../services/dictionaryService";
+import { describeAnalysisError } from "../services/analysisErrors";
+import { applyRedactions } from "../utils/redaction";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { decodeDataUrl, decodeImage, encodeImage, mimeTypeForPath } from "./imageCodec";
+import { clampTileMaxSide, MIN_TILE_SIDE } from "../utils/tiling";
+
+const USAGE = `Usage: privacyguard scan <dir> --out <dir> [options]
+
+Options:
+  --out <dir>           Where redacted images are written (required)
+  --report <file>       Write machine-readable findings as JSON
+  --policy <file>       Redaction policy JSON, as exported from the app settings
+  --dictionary <file>   Sensitive terms: dictionary JSON, or one term (or /regex/) per line
+  --provider <id>       gemini | openai-compatible (default: gemini)
+  --model <name>        Model name for the chosen provider
+  --base-url <url>      Base URL for the openai-compatible provider
+  --local <mode>        On-device detection: merge | replace | off (default: merge)
+  --no-refine           Do not snap boxes to text/pixel edges
+  --concurrency <n>     Simultaneous provider calls (default: 3)
+  --tile <px>           Analyze images larger than this in tiles, at least 512; 0 disables (default: 2048)
+
+Exit codes: 0 clean, 1 unredacted HIGH risks remain, 2 usage or processing error.
+Environment: GEMINI_API_KEY, PROVIDER_API_KEY (openai-compatible).`;
+
+class UsageError extends Error {}
+
+const parseTileSide = (value: unknown): number => {
+  const side = Number(value);
+  if (!Number.isFinite(side) || side < 0 || (side > 0 && side < MIN_TILE_SIDE)) {
+    throw new UsageError(`--tile must be 0 or at least ${MIN_TILE_SIDE}`);
+  }
+  return clampTileMaxSide(side);
+};
+
+const LOCAL_MODES: LocalDetectionMode[] = ['merge', 'replace', 'off'];
+
+// Rejects typos instead of silently using the default
+const parseChoice = <T extends string,>(option: string, value: unknown, choices: readonly T[], fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) throw new UsageError(`--${option} must be one of: ${choices.join(', ')}`);
+  return value as T;
+};
+
+interface FileReport {
+  file: string;
+  output: string | null;
+  summary: string;
+  risks: RiskItem[];
+  unredactedHigh: number;
+  error?: string;
+}
+
+const listImages = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return listImages(path);
+    return Promise.resolve(mimeTypeForPath(path) ? [path] : []);
+  }));
+  return nested.flat().sort();
+};
+
+// A HIGH risk counts as handled only if it is burned into pixels or is
+// metadata (never written by the encoder). Findings the policy ignores stay
+// visible in the output, so they count too.
+const countUnredactedHigh = (risks: RiskItem[]) =>
+  risks.filter(risk =>
+    risk.riskLevel === RiskLevel.HIGH
+    && !(risk.source === 'metadata' || (risk.isRedacted && risk.box_2d))
+  ).length;
+
+const scan = async (inputDir: string, values: Record<string, string | boolean | undefined>) => {
+  const outDir = values.out as string | undefined;
+  if (!outDir) throw new UsageError("--out is required");
+
+  const redactionPolicy = values.policy
+    ? parseRedactionPolicy(await readFile(values.policy as string, 'utf8'))
+    : DEFAULT_PROVIDER_SETTINGS.redactionPolicy;
+  const dictionary = values.dictionary
+    ? parseDictionary(await readFile(values.dictionary as string, 'utf8'))
+    : DEFAULT_PROVIDER_SETTINGS.dictionary;
+
+  const providerId = parseChoice('provider', values.provider, Object.keys(PROVIDERS) as ProviderId[], DEFAULT_PROVIDER_SETTINGS.providerId);
+  const settings: ProviderSettings = {
+    ...DEFAULT_PROVIDER_SETTINGS,
+    providerId,
+    localDetection: parseChoice('local', values.local, LOCAL_MODES, DEFAULT_PROVIDER_SETTINGS.localDetection),
+    refineBoxes: !values['no-refine'],
+    tileMaxSide: values.tile !== undefined ? parseTileSide(values.tile) : DEFAULT_PROVIDER_SETTINGS.tileMaxSide,
+    ...(values.model ? (providerId === 'gemini' ? { geminiModel: values.model as string } : { httpModel: values.model as string }) : {}),
+    ...(values['base-url'] ? { httpBaseUrl: values['base-url'] as string } : {}),
+    httpApiKey: process.env.PROVIDER_API_KEY ?? '',
+    redactionPolicy,
+    dictionary,
+  };
+
+  const files = await listImages(inputDir);
+  if (files.length === 0) throw new UsageError(`No images found in ${inputDir}`);
+  const concurrency = Math.max(1, Number(values.concurrency ?? settings.batchConcurrency) || 1);
+
+  const reports = await mapWithConcurrency(files, concurrency, async (file): Promise<FileReport> => {
+    const relativePath = relative(inputDir, file);
+    try {
+      const mimeType = mimeTypeForPath(file)!;
+      const bytes = await readFile(file);
+      const { summary, risks } = await analyzeScreenshot(bytes.toString('base64'), mimeType, settings, {
+        decodeImage: decodeDataUrl,
+        // A CI gate must not pass on a scan that silently skipped OCR or the
+        // provider; --local replace asks for on-device detection only
+        requireOcr: true,
+        requireProvider: true,
+        encodeImage: async image => encodeImage(image, 'image/png').toString('base64'),
+      });
+
+      const image = decodeImage(bytes, mimeType);
+      applyRedactions(image, risks);
+      const output = join(outDir, relativePath);
+      await mkdir(dirname(output), { recursive: true });
+      await writeFile(output, encodeImage(image, mimeType));
+
+      const unredactedHigh = countUnredactedHigh(risks);
+      console.log(`${unredactedHigh > 0 ? 'FAIL' : 'ok  '} ${relativePath}: ${risks.length} finding(s), ${unredactedHigh} unredacted HIGH`);
+      return { file: relativePath, output, summary, risks, unredactedHigh };
+    } catch (error: unknown) {
+      const message = describeAnalysisError(error);
+      console.error(`error ${relativePath}: ${message}`);
+      return { file: relativePath, output: null, summary: '', risks: [], unredactedHigh: 0, error: message };
+    }
+  });
+
+  if (values.report) {
+    await writeFile(values.report as string, JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      provider: settings.providerId,
+      policy: redactionPolicy,
+      files: reports,
+    }, null, 2));
+  }
+
+  if (reports.some(r => r.error)) return 2;
+  return reports.some(r => r.unredactedHigh > 0) ? 1 : 0;
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      report: { type: 'string' },
+      policy: { type: 'string' },
+      dictionary: { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      local: { type: 'string' },
+      'no-refine': { type: 'boolean' },
+      concurrency: { type: 'string' },
+      tile: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, inputDir] = positionals;
+  if (values.help || command !== 'scan' || !inputDir) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+  return scan(resolve(inputDir), values);
+};
+
+main()
+  .then(
+    code => { process.exitCode = code; },
+    error => {
+      console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : error);
+      process.exitCode = 2;
+    }
+  )
+  // The OCR worker keeps the process alive until it is shut down. A worker
+  // that failed to load its language data is never handed back to be
+  // terminated, so exit explicitly with the code set above.
+  .finally(async () => {
+    await terminateOcr();
+    process.exit();
+  });
@@ -1,15 +1,114 @@
-import React from 'react';
-import { RiskItem, RiskLevel } from '../types';
-import { AlertTriangle, AlertCircle, CheckCircle, Eye, EyeOff, Trash2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox, RiskItem, RiskLevel } from '../types';
+import { describeRisk } from '../utils/accessibility';
+import { AlertTriangle, AlertCircle, CheckCircle, Eye, EyeOff, Trash2, FileX, Loader2, Search } from 'lucide-react';
 
 interface Props {
   summary: string;
   risks: RiskItem[];
+  isAnalyzing?: boolean; // Findings are still streaming in
   onToggleRedaction: (id: string) => void;
   onToggleVisibility: (id: string) => void;
+  selectedId?: string | null; // Shared with the viewer
+  onSelectRisk?: (id: string) => void;
+  onShowRisk?: (id: string) => void; // Select and zoom to the finding in the viewer
+  hoveredId?: string | null; // Shared with the viewer
+  onHoverRisk?: (id: string | null) => void;
+  onBulkUpdate?: (ids: string[], patch: BulkPatch) => void; // One undo step for the whole set
+  onDisplayOrderChange?: (ids: string[]) => void; // Cards as listed after filtering, sorting and grouping
 }
 
-const AnalysisSidebar: React.FC<Props> = ({ summary, risks, onToggleRedaction, onToggleVisibility }) => {
+export type BulkPatch = Pick<RiskItem, 'isRedacted' | 'isHidden'>;
+
+type GroupBy = 'none' | 'type' | 'level';
+type SortBy = 'level' | 'position' | 'type';
+
+const GROUP_OPTIONS: Array<{ value: GroupBy; label: string }> = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'type', label: 'By type' },
+  { value: 'level', label: 'By risk level' },
+];
+
+const SORT_OPTIONS: Array<{ value: SortBy; label: string }> = [
+  { value: 'level', label: 'Risk level' },
+  { value: 'position', label: 'Position' },
+  { value: 'type', label: 'Type' },
+];
+
+const LEVEL_ORDER = [RiskLevel.HIGH, RiskLevel.MEDIUM, RiskLevel.LOW, RiskLevel.SAFE];
+
+// Top to bottom, then left to right; findings without a box go last
+const byPosition = (a: RiskItem, b: RiskItem) => {
+  if (!a.box_2d || !b.box_2d) return Number(!a.box_2d) - Number(!b.box_2d);
+  return a.box_2d.ymin - b.box_2d.ymin || a.box_2d.xmin - b.box_2d.xmin;
+};
+
+const COMPARATORS: Record<SortBy, (a: RiskItem, b: RiskItem) => number> = {
+  level: (a, b) => LEVEL_ORDER.indexOf(a.riskLevel) - LEVEL_ORDER.indexOf(b.riskLevel) || byPosition(a, b),
+  position: byPosition,
+  type: (a, b) => a.type.localeCompare(b.type) || byPosition(a, b),
+};
+
+const matchesQuery = (risk: RiskItem, query: string) =>
+  `${risk.type} ${risk.description}`.toLowerCase().includes(query.trim().toLowerCase());
+
+// Metadata is stripped on export and has nothing to draw over
+const canRedact = (risk: RiskItem) => !!risk.box_2d && risk.source !== 'metadata';
+
+interface RiskGroup {
+  key: string;
+  label: string;
+  risks: RiskItem[];
+}
+
+/** Splits already sorted risks into groups, keeping the sort order inside and between them. */
+const groupRisks = (risks: RiskItem[], groupBy: GroupBy): RiskGroup[] => {
+  if (groupBy === 'level') {
+    return LEVEL_ORDER
+      .map(level => ({ key: level, label: level, risks: risks.filter(r => r.riskLevel === level) }))
+      .filter(group => group.risks.length > 0);
+  }
+  if (groupBy === 'type') {
+    const groups = new Map<string, RiskGroup>();
+    risks.forEach(risk => {
+      const key = risk.type.trim().toLowerCase();
+      const group = groups.get(key) ?? { key, label: risk.type.trim() || 'Unknown', risks: [] };
+      group.risks.push(risk);
+      groups.set(key, group);
+    });
+    return [...groups.values()];
+  }
+  return [{ key: 'all', label: '', risks }];
+};
+
+const BulkButton: React.FC<{ label: string; risks: RiskItem[]; onClick: (ids: string[]) => void }> = ({ label, risks, onClick }) => (
+  <button
+    onClick={() => onClick(risks.map(r => r.id))}
+    disabled={risks.length === 0}
+    className="text-[11px] px-2 py-1 rounded border border-gray-600 bg-gray-700/60 text-gray-300 hover:bg-gray-600 hover:text-white disabled:opacity-40 disabled:hover:bg-gray-700/60 transition-colors"
+  >
+    {label}
+  </button>
+);
+
+const formatBox = (box: BoundingBox) =>
+  [box.ymin, box.xmin, box.ymax, box.xmax].map(v => Math.round(v)).join(', ');
+
+const AnalysisSidebar: React.FC<Props> = ({ summary, risks, isAnalyzing = false, onToggleRedaction, onToggleVisibility, selectedId = null, onSelectRisk, onShowRisk, hoveredId = null, onHoverRisk, onBulkUpdate, onDisplayOrderChange }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [sortBy, setSortBy] = useState<SortBy>('level');
+  // Whether keyboard focus is in the list, so selection changes can move it along
+  const hasFocus = useRef(false);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    const card = listRef.current?.querySelector<HTMLElement>(`[data-risk-id="${CSS.escape(selectedId)}"]`);
+    if (!card) return;
+    card.scrollIntoView({ block: 'nearest' });
+    if (hasFocus.current && !card.contains(document.activeElement)) card.focus({ preventScroll: true });
+  }, [selectedId]);
   
   const getIcon = (level: RiskLevel) => {
     switch (level) {
@@ -31,66 +130,217 @@ const AnalysisSidebar: React.FC<Props> = ({ summary, risks, onToggleRedaction, o
 
   const visibleRisks = risks.filter(r => !r.isHidden);
   const hiddenRisks = risks.filter(r => r.isHidden);
+  const shownRisks = visibleRisks.filter(r => matchesQuery(r, query)).sort(COMPARATORS[sortBy]);
+  const groups = groupRisks(shownRisks, groupBy);
+  const shownRedactable = shownRisks.filter(canRedact);
+
+  // Serialized so the effect only fires when the order really changes, not on every render
+  const displayOrderKey = JSON.stringify(groups.flatMap(group => group.risks.map(r => r.id)));
+  useEffect(() => {
+    onDisplayOrderChange?.(JSON.parse(displayOrderKey));
+  }, [displayOrderKey, onDisplayOrderChange]);
+
+  const renderCard = (risk: RiskItem) => (
+    <div 
+      key={risk.id} 
+      data-risk-id={risk.id}
+      role="listitem"
+      tabIndex={0}
+      aria-label={describeRisk(risk)}
+      aria-current={selectedId === risk.id || undefined}
+      className={`p-3 rounded-lg border ${getColor(risk.riskLevel)} transition-all hover:bg-opacity-20 outline-none focus-visible:ring-2 focus-visible:ring-yellow-400 ${selectedId === risk.id ? 'ring-2 ring-blue-500' : (hoveredId === risk.id ? 'ring-1 ring-yellow-400' : '')} ${risk.box_2d && onShowRisk ? 'cursor-pointer' : ''}`}
+      onFocus={(e) => {
+        if (e.target === e.currentTarget && selectedId !== risk.id) onSelectRisk?.(risk.id);
+      }}
+      onMouseEnter={() => onHoverRisk?.(risk.id)}
+      onMouseLeave={() => onHoverRisk?.(null)}
+      onClick={(e) => {
+        // The buttons on the card keep their own meaning
+        if (risk.box_2d && !(e.target as HTMLElement).closest('button')) onShowRisk?.(risk.id);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && e.target === e.currentTarget && risk.box_2d) onShowRisk?.(risk.id);
+      }}
+      title={risk.box_2d && onShowRisk ? 'Show on image (Enter)' : undefined}
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="mt-0.5">{getIcon(risk.riskLevel)}</div>
+        <div className="flex-1">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-200">{risk.type}</h4>
+            <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-900/50 text-gray-400 border border-gray-700">
+              {risk.riskLevel}
+            </span>
+          </div>
+          <p className="text-xs text-gray-400 mt-1">{risk.description}</p>
+          {risk.originalBox && risk.box_2d && (
+            <p className="text-[10px] text-yellow-500/80 mt-1" title={`Detected: ${formatBox(risk.originalBox)}\nRefined: ${formatBox(risk.box_2d)}`}>
+              Box snapped to text
+            </p>
+          )}
+          
+          <div className="mt-3 flex items-center gap-2">
+            {risk.source === 'metadata' ? (
+              <span className="flex-1 text-xs py-1.5 px-3 rounded flex items-center justify-center gap-1.5 bg-gray-900 text-gray-400 border border-gray-700">
+                <FileX className="w-3 h-3" />
+                Stripped on export
+              </span>
+            ) : (
+            <button
+              onClick={() => onToggleRedaction(risk.id)}
+              aria-pressed={!!risk.isRedacted}
+              className={`flex-1 text-xs py-1.5 px-3 rounded flex items-center justify-center gap-1.5 transition-colors ${
+                risk.isRedacted 
+                ? 'bg-gray-900 text-white border border-gray-600' 
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {risk.isRedacted ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+              {risk.isRedacted ? 'Redacted' : 'Redact'}
+            </button>
+            )}
+            <button 
+               onClick={() => onToggleVisibility(risk.id)}
+               className="p-1.5 text-gray-500 hover:text-gray-300 rounded hover:bg-gray-700"
+               title="Ignore this risk"
+               aria-label={`Ignore ${risk.type}`}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
 
   return (
     <div className="h-full flex flex-col bg-gray-800 border-l border-gray-700 w-full lg:w-96 flex-shrink-0 overflow-hidden">
       <div className="p-6 border-b border-gray-700">
         <h2 className="text-lg font-semibold text-white mb-2">Analysis Report</h2>
-        <p className="text-sm text-gray-400 leading-relaxed">{summary}</p>
+        {isAnalyzing ? (
+          <p className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin text-blue-400" />
+            Still analyzing · {risks.length} finding{risks.length === 1 ? '' : 's'} so far
+          </p>
+        ) : (
+          <p className="text-sm text-gray-400 leading-relaxed">{summary}</p>
+        )}
       </div>
 
-      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+      <div
+        ref={listRef}
+        className="flex-1 overflow-y-auto p-4 space-y-3"
+        onFocus={() => { hasFocus.current = true; }}
+        onBlur={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) hasFocus.current = false;
+        }}
+      >
         <div className="flex items-center justify-between mb-2">
-          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">Detected Risks ({visibleRisks.length})</h3>
+          <h3 id="detected-risks-heading" className="text-xs font-bold text-gray-500 uppercase tracking-wider">Detected Risks ({visibleRisks.length})</h3>
         </div>
 
-        {visibleRisks.length === 0 && hiddenRisks.length === 0 && (
+        {!isAnalyzing && visibleRisks.length === 0 && hiddenRisks.length === 0 && (
           <div className="text-center py-10 text-gray-500">
             <CheckCircle className="w-12 h-12 mx-auto mb-3 opacity-50" />
             <p>No risks detected. Great!</p>
           </div>
         )}
 
-        {visibleRisks.map((risk) => (
-          <div 
-            key={risk.id} 
-            className={`p-3 rounded-lg border ${getColor(risk.riskLevel)} transition-all hover:bg-opacity-20`}
-          >
-            <div className="flex items-start justify-between gap-3">
-              <div className="mt-0.5">{getIcon(risk.riskLevel)}</div>
-              <div className="flex-1">
-                <div className="flex items-center justify-between">
-                  <h4 className="text-sm font-medium text-gray-200">{risk.type}</h4>
-                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-gray-900/50 text-gray-400 border border-gray-700">
-                    {risk.riskLevel}
-                  </span>
-                </div>
-                <p className="text-xs text-gray-400 mt-1">{risk.description}</p>
-                
-                <div className="mt-3 flex items-center gap-2">
-                  <button
-                    onClick={() => onToggleRedaction(risk.id)}
-                    className={`flex-1 text-xs py-1.5 px-3 rounded flex items-center justify-center gap-1.5 transition-colors ${
-                      risk.isRedacted 
-                      ? 'bg-gray-900 text-white border border-gray-600' 
-                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                    }`}
-                  >
-                    {risk.isRedacted ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
-                    {risk.isRedacted ? 'Redacted' : 'Redact'}
-                  </button>
-                  <button 
-                     onClick={() => onToggleVisibility(risk.id)}
-                     className="p-1.5 text-gray-500 hover:text-gray-300 rounded hover:bg-gray-700"
-                     title="Ignore this risk"
-                  >
-                    <Trash2 className="w-3.5 h-3.5" />
-                  </button>
-                </div>
+        {!isAnalyzing && visibleRisks.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <div className="flex-1 flex items-center gap-1.5 bg-gray-900 border border-gray-700 rounded px-2 py-1 focus-within:border-blue-500">
+                <Search className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" aria-hidden="true" />
+                <input
+                  type="search"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Filter by type or description"
+                  aria-label="Filter findings"
+                  className="w-full bg-transparent text-xs text-white outline-none placeholder-gray-600"
+                />
               </div>
+              <select
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+                aria-label="Group findings"
+                className="bg-gray-900 border border-gray-700 rounded px-1.5 py-1 text-xs text-gray-300 outline-none focus:border-blue-500"
+              >
+                {GROUP_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+              <select
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as SortBy)}
+                aria-label="Sort findings"
+                className="bg-gray-900 border border-gray-700 rounded px-1.5 py-1 text-xs text-gray-300 outline-none focus:border-blue-500"
+              >
+                {SORT_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
             </div>
+
+            {onBulkUpdate && (
+              <div className="flex flex-wrap gap-1.5">
+                {query.trim() ? (
+                  <>
+                    <BulkButton label={`Redact ${shownRedactable.length} shown`} risks={shownRedactable} onClick={ids => onBulkUpdate(ids, { isRedacted: true })} />
+                    <BulkButton label={`Ignore ${shownRisks.length} shown`} risks={shownRisks} onClick={ids => onBulkUpdate(ids, { isHidden: true })} />
+                  </>
+                ) : (
+                  <>
+                    <BulkButton
+                      label="Redact MEDIUM and above"
+                      risks={visibleRisks.filter(r => canRedact(r) && (r.riskLevel === RiskLevel.HIGH || r.riskLevel === RiskLevel.MEDIUM))}
+                      onClick={ids => onBulkUpdate(ids, { isRedacted: true })}
+                    />
+                    <BulkButton
+                      label="Ignore all LOW"
+                      risks={visibleRisks.filter(r => r.riskLevel === RiskLevel.LOW)}
+                      onClick={ids => onBulkUpdate(ids, { isHidden: true })}
+                    />
+                  </>
+                )}
+              </div>
+            )}
           </div>
+        )}
+
+        {shownRisks.length === 0 && visibleRisks.length > 0 && (
+          <p className="text-center py-6 text-xs text-gray-500">No findings match "{query.trim()}".</p>
+        )}
+
+        <div role="list" aria-labelledby="detected-risks-heading" className="space-y-3">
+        {groups.map(group => (
+          <React.Fragment key={group.key}>
+            {groupBy !== 'none' && (
+              <div role="presentation" className="flex items-center justify-between pt-2">
+                <span className="text-xs font-semibold text-gray-300">
+                  {group.label} <span className="text-gray-500">({group.risks.length})</span>
+                </span>
+                {onBulkUpdate && !isAnalyzing && (
+                  <div className="flex items-center gap-2 text-[10px]">
+                    <button
+                      onClick={() => onBulkUpdate(group.risks.filter(canRedact).map(r => r.id), { isRedacted: true })}
+                      disabled={!group.risks.some(r => canRedact(r) && !r.isRedacted)}
+                      className="text-blue-400 hover:underline disabled:text-gray-600 disabled:no-underline"
+                      aria-label={`Redact all ${group.label}`}
+                    >
+                      Redact all
+                    </button>
+                    <button
+                      onClick={() => onBulkUpdate(group.risks.map(r => r.id), { isHidden: true })}
+                      className="text-gray-400 hover:underline"
+                      aria-label={`Ignore all ${group.label}`}
+                    >
+                      Ignore all
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+            {group.risks.map(renderCard)}
+          </React.Fragment>
         ))}
+        </div>
 
         {hiddenRisks.length > 0 && (
             <div className="mt-6 border-t border-gray-700 pt-4">
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { ArrowLeft, CheckCircle, AlertTriangle, Loader2, Clock, CheckCheck, Archive, FolderOpen, Trash2 } from 'lucide-react';
+import { BatchItem, BatchItemStatus, RiskLevel } from '../types';
+import Button from './Button';
+
+interface Props {
+  items: BatchItem[];
+  isExporting: boolean;
+  onAddFiles: (files: File[]) => void;
+  onDropFiles: (dataTransfer: DataTransfer) => void;
+  onReview: (id: string) => void;
+  onRemove: (id: string) => void;
+  onRetry: (id: string) => void;
+  onApproveAll: () => void;
+  onExportZip: () => void;
+  onBack: () => void;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  analyzing: 'Analyzing',
+  ready: 'Needs review',
+  approved: 'Approved',
+  error: 'Failed',
+};
+
+const StatusIcon: React.FC<{ status: BatchItemStatus }> = ({ status }) => {
+  switch (status) {
+    case 'queued': return <Clock className="w-4 h-4 text-gray-500" />;
+    case 'analyzing': return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />;
+    case 'ready': return <AlertTriangle className="w-4 h-4 text-yellow-500" />;
+    case 'approved': return <CheckCircle className="w-4 h-4 text-green-500" />;
+    default: return <AlertTriangle className="w-4 h-4 text-red-500" />;
+  }
+};
+
+const BatchPanel: React.FC<Props> = ({
+  items,
+  isExporting,
+  onAddFiles,
+  onDropFiles,
+  onReview,
+  onRemove,
+  onRetry,
+  onApproveAll,
+  onExportZip,
+  onBack,
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const finished = items.filter(i => i.status === 'ready' || i.status === 'approved' || i.status === 'error').length;
+  const approved = items.filter(i => i.status === 'approved').length;
+  const progress = items.length ? Math.round((finished / items.length) * 100) : 0;
+
+  return (
+    <div
+      className={`h-full flex flex-col p-6 overflow-hidden animate-fade-in ${isDragging ? 'bg-blue-900/10' : ''}`}
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => { e.preventDefault(); setIsDragging(false); onDropFiles(e.dataTransfer); }}
+    >
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <Button variant="secondary" onClick={onBack}>
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+        <div className="flex-1 min-w-[200px]">
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span>{finished} of {items.length} scanned · {approved} approved</span>
+            <span>{progress}%</span>
+          </div>
+          <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }} />
+          </div>
+        </div>
+        <div className="relative">
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+            onChange={(e) => { onAddFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+          />
+          <Button variant="secondary" className="relative z-0">
+            <FolderOpen className="w-4 h-4" />
+            Add
+          </Button>
+        </div>
+        <Button variant="secondary" onClick={onApproveAll} disabled={!items.some(i => i.status === 'ready')}>
+          <CheckCheck className="w-4 h-4" />
+          Approve All
+        </Button>
+        <Button variant="primary" onClick={onExportZip} isLoading={isExporting} disabled={approved === 0}>
+          <Archive className="w-4 h-4" />
+          Export Zip ({approved})
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4 content-start">
+        {items.map(item => {
+          const risks = item.analysisResult?.risks.filter(r => !r.isHidden) ?? [];
+          const high = risks.filter(r => r.riskLevel === RiskLevel.HIGH).length;
+          const canReview = item.status === 'ready' || item.status === 'approved';
+
+          return (
+            <div key={item.id} className="group bg-gray-800/60 border border-gray-700 rounded-lg overflow-hidden flex flex-col">
+              <button
+                onClick={() => canReview && onReview(item.id)}
+                disabled={!canReview}
+                className="relative aspect-video bg-black/40 disabled:cursor-default"
+                title={canReview ? 'Review' : undefined}
+              >
+                <img src={item.imageUrl} alt={item.fileName} className="w-full h-full object-contain" />
+              </button>
+              <div className="p-2 flex flex-col gap-1 text-xs">
+                <span className="text-gray-200 truncate" title={item.fileName}>{item.fileName}</span>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-1 text-gray-400">
+                    <StatusIcon status={item.status} />
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {item.status === 'error' && (
+                      <button onClick={() => onRetry(item.id)} className="text-blue-400 hover:underline">Retry</button>
+                    )}
+                    <button
+                      onClick={() => onRemove(item.id)}
+                      className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                      title="Remove"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+                {item.analysisResult && (
+                  <span className="text-gray-500">
+                    {risks.length} risk{risks.length === 1 ? '' : 's'}{high > 0 && <span className="text-red-400"> · {high} high</span>}
+                  </span>
+                )}
+                {item.error && <span className="text-red-400 truncate" title={item.error}>{item.error}</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
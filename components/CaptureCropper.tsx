@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoundingBox, Point } from '../types';
+import { boundsOfPoints, clampPoint } from '../utils/geometry';
+
+interface Props {
+  imageUrl: string; // Frozen frame
+  crop: BoundingBox | null; // Normalized 0-1000; null keeps the whole frame
+  onChange: (crop: BoundingBox | null) => void;
+}
+
+// Smaller drags count as a click and clear the selection
+const MIN_CROP_SIZE = 10;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/** Shows a captured frame and lets the user drag out the region to analyze. */
+const CaptureCropper: React.FC<Props> = ({ imageUrl, crop, onChange }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const start = useRef<Point | null>(null);
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+  const [stageSize, setStageSize] = useState<Size | null>(null);
+
+  // Fit the frame inside the root like object-contain, but with a stage we can position overlays on
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root || !naturalSize) return;
+    const measure = () => {
+      const scale = Math.min(root.clientWidth / naturalSize.width, root.clientHeight / naturalSize.height);
+      setStageSize({ width: naturalSize.width * scale, height: naturalSize.height * scale });
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, [naturalSize]);
+
+  const pointAt = (e: React.PointerEvent): Point | null => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return clampPoint({ x: ((e.clientX - rect.left) / rect.width) * 1000, y: ((e.clientY - rect.top) / rect.height) * 1000 });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    const point = pointAt(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    start.current = point;
+    onChange(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = pointAt(e);
+    if (!start.current || !point) return;
+    onChange(boundsOfPoints([start.current, point]));
+  };
+
+  const handlePointerUp = () => {
+    start.current = null;
+    if (crop && (crop.xmax - crop.xmin < MIN_CROP_SIZE || crop.ymax - crop.ymin < MIN_CROP_SIZE)) onChange(null);
+  };
+
+  return (
+    <div ref={rootRef} className="w-full h-full flex items-center justify-center">
+      <div
+        ref={stageRef}
+        className="relative overflow-hidden cursor-crosshair touch-none select-none"
+        style={stageSize ?? undefined}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img
+          src={imageUrl}
+          alt="Captured frame"
+          className="block w-full h-full pointer-events-none"
+          draggable={false}
+          onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
+        {crop && (
+          <div
+            className="absolute border-2 border-blue-400 pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+            style={{
+              left: `${crop.xmin / 10}%`,
+              top: `${crop.ymin / 10}%`,
+              width: `${(crop.xmax - crop.xmin) / 10}%`,
+              height: `${(crop.ymax - crop.ymin) / 10}%`,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CaptureCropper;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Download, Plus, Regex, Trash2, Upload } from 'lucide-react';
+import { DictionaryEntry, RiskLevel } from '../types';
+import { triggerDownload } from '../utils/canvasUtils';
+import { createDictionaryEntry, parseDictionary, serializeDictionary, textPattern } from '../services/dictionaryService';
+
+interface Props {
+  entries: DictionaryEntry[];
+  onChange: (entries: DictionaryEntry[]) => void;
+  inputClass: string;
+}
+
+const LEVELS = [RiskLevel.HIGH, RiskLevel.MEDIUM, RiskLevel.LOW];
+
+const DictionaryEditor: React.FC<Props> = ({ entries, onChange, inputClass }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateEntry = (id: string, patch: Partial<DictionaryEntry>) =>
+    onChange(entries.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      // Imported terms are added; entries with a known ID replace the existing ones
+      const imported = parseDictionary(await file.text());
+      const importedIds = new Set(imported.map(entry => entry.id));
+      onChange([...entries.filter(entry => !importedIds.has(entry.id)), ...imported]);
+      setImportError(null);
+    } catch (error: any) {
+      setImportError(error.message);
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializeDictionary(entries)], { type: 'application/json' }));
+    triggerDownload(url, 'dictionary.json');
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <p className="flex-1 text-[11px] text-gray-500">
+          Internal codenames, customer names or hostnames. They are found with on-device OCR and sent to the provider as hints.
+        </p>
+        <div className="relative shrink-0">
+          <input
+            type="file"
+            accept="application/json,.json,text/plain,.txt"
+            onChange={handleImport}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            title="Import a dictionary: JSON, or one term per line"
+          />
+          <span className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-300 border border-gray-600 rounded">
+            <Upload className="w-3.5 h-3.5" />
+            Import
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={entries.length === 0}
+          className="shrink-0 flex items-center gap-1 px-2 py-1.5 text-xs text-gray-300 border border-gray-600 rounded hover:text-white disabled:opacity-40"
+          title="Export dictionary JSON"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Export
+        </button>
+      </div>
+      {importError && <p className="text-[11px] text-red-400">{importError}</p>}
+
+      {entries.map(entry => {
+        const isInvalid = entry.isRegex && !!entry.term && !textPattern(entry.term, true);
+        return (
+          <div key={entry.id} className="flex items-center gap-1.5">
+            <input
+              type="text"
+              value={entry.term}
+              onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+              className={`${inputClass} ${isInvalid ? 'border-red-500' : ''} ${entry.isRegex ? 'font-mono' : ''}`}
+              placeholder={entry.isRegex ? 'db-\\d+\\.corp' : 'Term'}
+              title={isInvalid ? 'Not a valid regular expression' : undefined}
+            />
+            <button
+              type="button"
+              onClick={() => updateEntry(entry.id, { isRegex: !entry.isRegex })}
+              className={`p-1.5 rounded border shrink-0 ${entry.isRegex ? 'bg-blue-900/40 border-blue-700 text-blue-300' : 'border-gray-700 text-gray-500 hover:text-gray-300'}`}
+              title="Treat as a regular expression"
+            >
+              <Regex className="w-3.5 h-3.5" />
+            </button>
+            <input
+              type="text"
+              value={entry.label}
+              onChange={(e) => updateEntry(entry.id, { label: e.target.value })}
+              className={inputClass}
+              placeholder="Type, e.g. Codename"
+            />
+            <select
+              value={entry.riskLevel}
+              onChange={(e) => updateEntry(entry.id, { riskLevel: e.target.value as RiskLevel })}
+              className={`${inputClass} !w-auto`}
+            >
+              {LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(entries.filter(e => e.id !== entry.id))}
+              className="p-1 text-gray-500 hover:text-red-400 shrink-0"
+              title="Remove term"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        type="button"
+        onClick={() => onChange([...entries, createDictionaryEntry()])}
+        className="flex items-center gap-1 text-xs text-blue-400 hover:underline"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add term
+      </button>
+    </div>
+  );
+};
+
+export default DictionaryEditor;
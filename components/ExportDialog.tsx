@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { ExportOptions } from '../types';
+import { EXPORT_FORMATS, buildExportFileName, resolveExportFormat } from '../utils/exportUtils';
+import Button from './Button';
+
+interface Props {
+  options: ExportOptions;
+  sourceMimeType: string | null;
+  sourceFileName: string | null;
+  isProcessing: boolean;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-600 rounded px-2 py-1.5 text-sm text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all";
+const labelClass = "block text-[10px] font-semibold text-gray-500 mb-1 uppercase";
+
+const ExportDialog: React.FC<Props> = ({ options, sourceMimeType, sourceFileName, isProcessing, onExport, onClose }) => {
+  const [draft, setDraft] = useState<ExportOptions>(options);
+
+  const update = (patch: Partial<ExportOptions>) => setDraft(prev => ({ ...prev, ...patch }));
+  const format = resolveExportFormat(draft.format, sourceMimeType);
+  const sourceLabel = EXPORT_FORMATS.find(f => f.value === sourceMimeType)?.label ?? 'PNG';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="w-full max-w-md bg-gray-900 border border-gray-700 rounded-xl shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Export Safe Image</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <label className={labelClass}>Format</label>
+            <select
+              value={draft.format}
+              onChange={(e) => update({ format: e.target.value as ExportOptions['format'] })}
+              className={inputClass}
+            >
+              <option value="source">Same as original ({sourceLabel})</option>
+              {EXPORT_FORMATS.map(f => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {format !== 'image/png' && (
+            <div>
+              <div className="flex justify-between">
+                <label className={labelClass}>Quality</label>
+                <span className="text-[10px] text-gray-400">{Math.round(draft.quality * 100)}%</span>
+              </div>
+              <input
+                type="range" min="0.3" max="1" step="0.01"
+                value={draft.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="w-full h-1 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Max Width / Height (px)</label>
+            <input
+              type="number"
+              min={16}
+              value={draft.maxDimension ?? ''}
+              onChange={(e) => update({ maxDimension: e.target.value ? Math.max(16, Number(e.target.value)) : null })}
+              className={inputClass}
+              placeholder="Original size"
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>File Name</label>
+            <input
+              type="text"
+              value={draft.fileNameTemplate}
+              onChange={(e) => update({ fileNameTemplate: e.target.value })}
+              className={inputClass}
+              placeholder="{name}-safe"
+            />
+            <p className="text-[11px] text-gray-500 mt-1">
+              Use {'{name}'}, {'{date}'} and {'{timestamp}'}. Saves as{' '}
+              <span className="text-gray-300">{buildExportFileName(draft.fileNameTemplate, sourceFileName, format)}</span>
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={() => onExport(draft)} isLoading={isProcessing}>
+            <Download className="w-4 h-4" />
+            Download
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,106 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, Regex, Search } from 'lucide-react';
+import { BoundingBox, OcrResult } from '../types';
+import { recognizeText } from '../services/ocrService';
+import { findTextMatches } from '../services/ruleDetector';
+import { textPattern } from '../services/dictionaryService';
+import { loadImageData } from '../utils/canvasUtils';
+
+interface Props {
+  imageUrl: string;
+  disabled?: boolean;
+  onHighlight: (boxes: BoundingBox[]) => void; // Matches to outline on the image
+  onRedactAll: (query: string, boxes: BoundingBox[]) => void;
+}
+
+type OcrStatus = 'idle' | 'reading' | 'ready' | 'error';
+
+const FindAndRedact: React.FC<Props> = ({ imageUrl, disabled = false, onHighlight, onRedactAll }) => {
+  const [query, setQuery] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [ocr, setOcr] = useState<OcrResult | null>(null);
+  const [status, setStatus] = useState<OcrStatus>('idle');
+  const imageUrlRef = useRef(imageUrl);
+
+  useEffect(() => {
+    imageUrlRef.current = imageUrl;
+    setOcr(null);
+    setStatus('idle');
+  }, [imageUrl]);
+
+  // OCR is slow, so only read the image once someone starts searching
+  const ensureOcr = () => {
+    if (status !== 'idle') return;
+    setStatus('reading');
+    loadImageData(imageUrl)
+      .then(image => recognizeText(imageUrl, image.width, image.height))
+      .then(result => {
+        if (imageUrlRef.current !== imageUrl) return;
+        setOcr(result);
+        setStatus('ready');
+      })
+      .catch(err => {
+        console.warn("Text recognition failed:", err);
+        if (imageUrlRef.current === imageUrl) setStatus('error');
+      });
+  };
+
+  const pattern = useMemo(() => textPattern(query, isRegex), [query, isRegex]);
+  const matches = useMemo(
+    () => (ocr && pattern ? findTextMatches(ocr, pattern).map(match => match.box) : []),
+    [ocr, pattern]
+  );
+
+  useEffect(() => {
+    onHighlight(matches);
+  }, [matches]);
+
+  const handleRedact = () => {
+    onRedactAll(query.trim(), matches);
+    setQuery('');
+  };
+
+  const hint = !query.trim()
+    ? null
+    : status === 'reading' ? <Loader2 className="w-3.5 h-3.5 animate-spin" />
+    : status === 'error' ? 'No text'
+    : !pattern ? 'Invalid'
+    : `${matches.length}`;
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (matches.length > 0) handleRedact(); }}
+      className="flex items-center rounded-lg shadow-lg bg-gray-900/80 backdrop-blur border border-gray-700 text-sm"
+    >
+      <Search className="w-4 h-4 ml-2 text-gray-500 shrink-0" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={ensureOcr}
+        disabled={disabled}
+        placeholder="Find text…"
+        className={`w-36 bg-transparent px-2 py-1.5 text-white placeholder-gray-500 outline-none ${isRegex ? 'font-mono' : ''}`}
+        title="Find text on the image and redact every match"
+      />
+      {hint && <span className="px-1 text-xs text-gray-400 tabular-nums">{hint}</span>}
+      <button
+        type="button"
+        onClick={() => setIsRegex(prev => !prev)}
+        className={`p-1.5 ${isRegex ? 'text-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+        title="Regular expression"
+      >
+        <Regex className="w-3.5 h-3.5" />
+      </button>
+      <button
+        type="submit"
+        disabled={disabled || matches.length === 0}
+        className="px-2 py-1.5 text-xs font-medium text-blue-300 hover:text-white border-l border-gray-700 disabled:opacity-40 disabled:hover:text-blue-300"
+      >
+        Redact all
+      </button>
+    </form>
+  );
+};
+
+export default FindAndRedact;
@@ -1,7 +1,11 @@
 import React from 'react';
-import { Shield, EyeOff } from 'lucide-react';
+import { Shield, EyeOff, Settings } from 'lucide-react';
 
-const Header: React.FC = () => {
+interface Props {
+  onOpenSettings: () => void;
+}
+
+const Header: React.FC<Props> = ({ onOpenSettings }) => {
   return (
     <header className="bg-gray-800/50 backdrop-blur-sm border-b border-gray-700 p-4 flex items-center justify-between sticky top-0 z-50">
       <div className="flex items-center space-x-2">
@@ -18,6 +22,13 @@ const Header: React.FC = () => {
           <EyeOff className="w-4 h-4" />
           <span>Client-side rendering for maximum privacy</span>
         </div>
+        <button
+          onClick={onOpenSettings}
+          className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+          title="Settings"
+        >
+          <Settings className="w-5 h-5" />
+        </button>
       </div>
     </header>
   );
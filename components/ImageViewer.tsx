@@ -1,42 +1,123 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { RiskItem, BoundingBox, ImageFilters } from '../types';
-import { Eye, EyeOff, Trash2, Move, Type, Sliders, X, RotateCcw } from 'lucide-react';
+import { RiskItem, BoundingBox, ImageFilters, Point, RedactionShape, RedactionStyle } from '../types';
+import { DEFAULT_REDACTION_COLOR, DEFAULT_REDACTION_STYLE, REDACTION_STYLES } from '../utils/redaction';
+import { filterToCss } from '../utils/canvasUtils';
+import { describeRisk, KEYBOARD_SHORTCUTS } from '../utils/accessibility';
+import { useZoomPan, VIEWPORT_PADDING } from '../hooks/useZoomPan';
+import { angleAround, boundsOfPoints, boxCorners, mapPointsToBox, rotatePoints, rotatedRectangle, simplifyPath } from '../utils/geometry';
+import RedactionCanvas from './RedactionCanvas';
+import Minimap, { MinimapPreview } from './Minimap';
+import { Eye, EyeOff, Trash2, Type, Sliders, RotateCcw, RotateCw, Undo2, Circle, Square, RectangleHorizontal, Pentagon, Lasso, ZoomIn, ZoomOut, Maximize, Keyboard } from 'lucide-react';
 
 interface Props {
   imageUrl: string;
   risks: RiskItem[];
   filters: ImageFilters;
+  selectedId: string | null; // Shared with the sidebar
+  onSelectRisk: (id: string | null) => void;
+  hoveredId?: string | null; // Highlighted from the sidebar
+  onHoverRisk?: (id: string | null) => void;
   onToggleRedaction: (id: string) => void;
-  onAddRisk: (box: BoundingBox) => void;
-  onUpdateRisk: (id: string, box: BoundingBox) => void;
+  onAddRisk: (box: BoundingBox, points?: Point[]) => void; // Points make it a polygon
+  onUpdateRisk: (id: string, box: BoundingBox, gesture?: string, points?: Point[]) => void;
   onUpdateRiskText: (id: string, text: string) => void;
   onUpdateRiskDetails: (id: string, type: string, description: string) => void;
+  onUpdateRiskStyle: (id: string, style: RedactionStyle, color: string) => void;
+  onUpdateRiskShape: (id: string, shape: RedactionShape) => void;
   onDeleteRisk: (id: string) => void;
   onUpdateFilters: (filters: ImageFilters) => void;
+  highlights?: BoundingBox[]; // Outlined without being findings, e.g. text search matches
+  focusRequest?: { id: string; at: number } | null; // Select and zoom to this risk; `at` repeats a request
 }
 
+type DrawTool = 'rectangle' | 'rotated' | 'polygon' | 'lasso';
+
+const DRAW_TOOLS: Array<{ value: DrawTool; label: string; hint: string; Icon: React.ElementType }> = [
+  { value: 'rectangle', label: 'Rectangle', hint: 'Drag to create', Icon: Square },
+  { value: 'rotated', label: 'Rotated rectangle', hint: 'Drag along the text, then move out and click', Icon: RectangleHorizontal },
+  { value: 'polygon', label: 'Polygon', hint: 'Click each corner, double-click to close', Icon: Pentagon },
+  { value: 'lasso', label: 'Freehand', hint: 'Drag around the area', Icon: Lasso },
+];
+
+// Shapes smaller than this (0-1000 units, both axes) are treated as stray clicks
+const MIN_SHAPE_SIZE = 10;
+// Screen pixels within which a click closes a polygon on its first point
+const CLOSE_DISTANCE_PX = 10;
+const LASSO_TOLERANCE = 2;
+const ROTATION_SNAP = Math.PI / 12;
+
 type InteractionState = 
   | { type: 'IDLE' }
   | { type: 'DRAWING'; startX: number; startY: number; currentX: number; currentY: number }
-  | { type: 'MOVING'; id: string; startX: number; startY: number; initialBox: BoundingBox }
-  | { type: 'RESIZING'; id: string; handle: string; startX: number; startY: number; initialBox: BoundingBox };
+  | { type: 'POLYGON'; points: Point[]; cursor: Point }
+  | { type: 'LASSO'; points: Point[] }
+  // corners stay null until the first edge has been dragged
+  | { type: 'ROTATED'; start: Point; end: Point; corners: Point[] | null }
+  | { type: 'MOVING'; id: string; gesture: string; startX: number; startY: number; initialBox: BoundingBox; initialPoints?: Point[] }
+  | { type: 'RESIZING'; id: string; gesture: string; handle: string; startX: number; startY: number; initialBox: BoundingBox; initialPoints?: Point[] }
+  | { type: 'VERTEX'; id: string; gesture: string; index: number; points: Point[] }
+  | { type: 'ROTATING'; id: string; gesture: string; center: Point; startAngle: number; initialPoints: Point[] };
+
+const toSvgPoints = (points: Point[]) => points.map(p => `${p.x},${p.y}`).join(' ');
 
 const ImageViewer: React.FC<Props> = ({ 
   imageUrl, 
   risks,
   filters,
+  selectedId,
+  onSelectRisk,
+  hoveredId = null,
+  onHoverRisk,
   onToggleRedaction, 
   onAddRisk, 
   onUpdateRisk,
   onUpdateRiskText,
   onUpdateRiskDetails,
+  onUpdateRiskStyle,
+  onUpdateRiskShape,
   onDeleteRisk,
-  onUpdateFilters
+  onUpdateFilters,
+  highlights = [],
+  focusRequest = null
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  // Whether keyboard focus is on the canvas, so selection changes can move it along
+  const hasFocus = useRef(false);
   const [interaction, setInteraction] = useState<InteractionState>({ type: 'IDLE' });
   const [showFilters, setShowFilters] = useState(false);
+  const [tool, setTool] = useState<DrawTool>('rectangle');
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  // Latest redacted preview, so the minimap never shows the original pixels
+  const [preview, setPreview] = useState<MinimapPreview | null>(null);
+  const view = useZoomPan(viewportRef, containerRef, naturalSize, () => setInteraction({ type: 'IDLE' }));
+  const { resetZoom, zoomToBox, centerOn } = view;
+
+  // A new image starts fitted to the viewport
+  useEffect(() => {
+    setNaturalSize(null);
+    resetZoom();
+  }, [imageUrl, resetZoom]);
+
+  useEffect(() => {
+    const risk = focusRequest && risks.find(r => r.id === focusRequest.id);
+    if (!risk?.box_2d || risk.isHidden) return;
+    zoomToBox(risk.box_2d);
+    // Only a new request moves the view, not edits to the risk afterwards
+  }, [focusRequest, zoomToBox]);
+
+  // Follow a selection made elsewhere (sidebar, J/K): keep it in view and carry keyboard focus to it
+  useEffect(() => {
+    const box = risks.find(r => r.id === selectedId)?.box_2d;
+    if (!selectedId || !box) return;
+    const area = view.visibleArea;
+    if (view.zoom > 1 && area && (box.xmin < area.xmin || box.xmax > area.xmax || box.ymin < area.ymin || box.ymax > area.ymax)) {
+      centerOn({ x: (box.xmin + box.xmax) / 2, y: (box.ymin + box.ymax) / 2 });
+    }
+    if (!hasFocus.current) return;
+    const element = containerRef.current?.querySelector<HTMLElement>(`[data-risk-id="${CSS.escape(selectedId)}"]`);
+    if (element && !element.contains(document.activeElement)) element.focus({ preventScroll: true });
+  }, [selectedId, centerOn]);
 
   // --- Helpers ---
 
@@ -51,6 +132,17 @@ const ImageViewer: React.FC<Props> = ({
     };
   };
 
+  // Displayed size of the image, for angles and distances that must look right on screen
+  const getDisplaySize = () => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { width: rect?.width || 1, height: rect?.height || 1 };
+  };
+
+  const screenDistance = (a: Point, b: Point) => {
+    const { width, height } = getDisplaySize();
+    return Math.hypot(((a.x - b.x) / 1000) * width, ((a.y - b.y) / 1000) * height);
+  };
+
   const getBoxCoordinates = (box: BoundingBox) => {
     // Convert 1000-based coords to percentages
     const top = box.ymin / 10;
@@ -60,42 +152,123 @@ const ImageViewer: React.FC<Props> = ({
     return { top, left, width, height };
   };
 
+  const addPolygon = (points: Point[]) => {
+    if (points.length < 3) return;
+    const box = boundsOfPoints(points);
+    if (box.xmax - box.xmin > MIN_SHAPE_SIZE && box.ymax - box.ymin > MIN_SHAPE_SIZE) {
+      onAddRisk(box, points);
+    }
+  };
+
   // --- Event Handlers ---
 
   const handlePointerDown = (e: React.PointerEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    const { x, y } = getNormalizedPoint(e);
+    const point = getNormalizedPoint(e);
+    const { x, y } = point;
 
     // Deselect on click outside, handled by background down
     // NOTE: Stop propagation is used on child elements to prevent this trigger.
-    setSelectedId(null);
-    setInteraction({ type: 'DRAWING', startX: x, startY: y, currentX: x, currentY: y });
+    onSelectRisk(null);
+    switch (tool) {
+      case 'polygon':
+        setInteraction({ type: 'POLYGON', points: [point], cursor: point });
+        break;
+      case 'lasso':
+        setInteraction({ type: 'LASSO', points: [point] });
+        break;
+      case 'rotated':
+        setInteraction({ type: 'ROTATED', start: point, end: point, corners: null });
+        break;
+      default:
+        setInteraction({ type: 'DRAWING', startX: x, startY: y, currentX: x, currentY: y });
+    }
+  };
+
+  // Clicks while a polygon or rotated rectangle is half drawn, wherever they land
+  const handleDraftPointerDown = (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const point = getNormalizedPoint(e);
+
+    if (interaction.type === 'POLYGON') {
+      const { points } = interaction;
+      // The first click of a double-click already placed the last point
+      const closes = e.detail >= 2 || (points.length >= 3 && screenDistance(point, points[0]) < CLOSE_DISTANCE_PX);
+      if (closes) {
+        addPolygon(points);
+        setInteraction({ type: 'IDLE' });
+      } else {
+        setInteraction({ ...interaction, points: [...points, point], cursor: point });
+      }
+    } else if (interaction.type === 'ROTATED' && interaction.corners) {
+      addPolygon(interaction.corners);
+      setInteraction({ type: 'IDLE' });
+    }
   };
 
-  const handleBoxDown = (e: React.PointerEvent, id: string, box: BoundingBox) => {
+  const handleBoxDown = (e: React.PointerEvent, id: string, box: BoundingBox, points?: Point[]) => {
     e.stopPropagation();
     e.preventDefault();
-    setSelectedId(id);
+    onSelectRisk(id);
     setInteraction({ 
       type: 'MOVING', 
       id, 
+      gesture: `${e.pointerId}-${e.timeStamp}`,
       startX: e.clientX, // Use absolute screen coords for deltas
       startY: e.clientY,
-      initialBox: { ...box }
+      initialBox: { ...box },
+      initialPoints: points
     });
   };
 
-  const handleHandleDown = (e: React.PointerEvent, id: string, handle: string, box: BoundingBox) => {
+  const handleHandleDown = (e: React.PointerEvent, id: string, handle: string, box: BoundingBox, points?: Point[]) => {
     e.stopPropagation();
     e.preventDefault();
     setInteraction({ 
       type: 'RESIZING', 
       id, 
+      gesture: `${e.pointerId}-${e.timeStamp}`,
       handle,
       startX: e.clientX, 
       startY: e.clientY,
-      initialBox: { ...box }
+      initialBox: { ...box },
+      initialPoints: points
+    });
+  };
+
+  // Dragging a vertex moves it; dragging an edge midpoint inserts a new vertex there
+  const handleVertexDown = (e: React.PointerEvent, risk: RiskItem, index: number, insert = false) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const points = [...risk.points!];
+    if (e.altKey && !insert) {
+      // Alt-click removes a vertex, keeping at least a triangle
+      if (points.length > 3) {
+        points.splice(index, 1);
+        onUpdateRisk(risk.id, boundsOfPoints(points), undefined, points);
+      }
+      return;
+    }
+    if (insert) points.splice(index, 0, getNormalizedPoint(e));
+    setInteraction({ type: 'VERTEX', id: risk.id, gesture: `${e.pointerId}-${e.timeStamp}`, index, points });
+  };
+
+  const handleRotateDown = (e: React.PointerEvent, risk: RiskItem) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const box = risk.box_2d!;
+    const center = { x: (box.xmin + box.xmax) / 2, y: (box.ymin + box.ymax) / 2 };
+    const { width, height } = getDisplaySize();
+    setInteraction({
+      type: 'ROTATING',
+      id: risk.id,
+      gesture: `${e.pointerId}-${e.timeStamp}`,
+      center,
+      startAngle: angleAround(center, getNormalizedPoint(e), width, height),
+      // A rotated rectangle becomes a four-point polygon
+      initialPoints: risk.points ?? boxCorners(box)
     });
   };
 
@@ -106,6 +279,20 @@ const ImageViewer: React.FC<Props> = ({
       if (interaction.type === 'DRAWING') {
         const { x, y } = getNormalizedPoint(e);
         setInteraction(prev => prev.type === 'DRAWING' ? { ...prev, currentX: x, currentY: y } : prev);
+      } else if (interaction.type === 'POLYGON') {
+        const cursor = getNormalizedPoint(e);
+        setInteraction(prev => prev.type === 'POLYGON' ? { ...prev, cursor } : prev);
+      } else if (interaction.type === 'LASSO') {
+        const point = getNormalizedPoint(e);
+        setInteraction(prev => prev.type === 'LASSO' && screenDistance(point, prev.points[prev.points.length - 1]) >= 3
+          ? { ...prev, points: [...prev.points, point] }
+          : prev);
+      } else if (interaction.type === 'ROTATED') {
+        const point = getNormalizedPoint(e);
+        const { width, height } = getDisplaySize();
+        setInteraction(prev => prev.type !== 'ROTATED' ? prev : prev.corners
+          ? { ...prev, corners: rotatedRectangle(prev.start, prev.end, point, width, height) }
+          : { ...prev, end: point });
       } else if (interaction.type === 'MOVING') {
         const rect = containerRef.current?.getBoundingClientRect();
         if (!rect) return;
@@ -119,8 +306,9 @@ const ImageViewer: React.FC<Props> = ({
           ymin: interaction.initialBox.ymin + deltaY,
           ymax: interaction.initialBox.ymax + deltaY,
         };
+        const points = interaction.initialPoints?.map(p => ({ x: p.x + deltaX, y: p.y + deltaY }));
 
-        onUpdateRisk(interaction.id, newBox);
+        onUpdateRisk(interaction.id, newBox, interaction.gesture, points);
       } else if (interaction.type === 'RESIZING') {
         const rect = containerRef.current?.getBoundingClientRect();
         if (!rect) return;
@@ -139,33 +327,80 @@ const ImageViewer: React.FC<Props> = ({
         if (xmax < xmin + 10) xmax = xmin + 10;
         if (ymax < ymin + 10) ymax = ymin + 10;
 
-        onUpdateRisk(interaction.id, { xmin, xmax, ymin, ymax });
+        const newBox = { xmin, xmax, ymin, ymax };
+        const points = interaction.initialPoints && mapPointsToBox(interaction.initialPoints, interaction.initialBox, newBox);
+        onUpdateRisk(interaction.id, newBox, interaction.gesture, points);
+      } else if (interaction.type === 'VERTEX') {
+        const point = getNormalizedPoint(e);
+        const points = interaction.points.map((p, i) => i === interaction.index ? point : p);
+        onUpdateRisk(interaction.id, boundsOfPoints(points), interaction.gesture, points);
+      } else if (interaction.type === 'ROTATING') {
+        const { width, height } = getDisplaySize();
+        let angle = angleAround(interaction.center, getNormalizedPoint(e), width, height) - interaction.startAngle;
+        if (e.shiftKey) angle = Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP;
+        const points = rotatePoints(interaction.initialPoints, interaction.center, angle, width, height);
+        onUpdateRisk(interaction.id, boundsOfPoints(points), interaction.gesture, points);
       }
     };
 
     const handlePointerUp = () => {
-      if (interaction.type === 'DRAWING') {
-        // Create the box if it has size
-        const xmin = Math.min(interaction.startX, interaction.currentX);
-        const xmax = Math.max(interaction.startX, interaction.currentX);
-        const ymin = Math.min(interaction.startY, interaction.currentY);
-        const ymax = Math.max(interaction.startY, interaction.currentY);
-
-        if (xmax - xmin > 10 && ymax - ymin > 10) {
-          onAddRisk({ xmin, xmax, ymin, ymax });
+      switch (interaction.type) {
+        case 'DRAWING': {
+          // Create the box if it has size
+          const xmin = Math.min(interaction.startX, interaction.currentX);
+          const xmax = Math.max(interaction.startX, interaction.currentX);
+          const ymin = Math.min(interaction.startY, interaction.currentY);
+          const ymax = Math.max(interaction.startY, interaction.currentY);
+
+          if (xmax - xmin > MIN_SHAPE_SIZE && ymax - ymin > MIN_SHAPE_SIZE) {
+            onAddRisk({ xmin, xmax, ymin, ymax });
+          }
+          break;
         }
+        case 'LASSO':
+          addPolygon(simplifyPath(interaction.points, LASSO_TOLERANCE));
+          break;
+        case 'ROTATED':
+          // Releasing the first edge starts the second step: setting the height
+          if (!interaction.corners && screenDistance(interaction.start, interaction.end) >= CLOSE_DISTANCE_PX) {
+            const { start, end } = interaction;
+            setInteraction({ ...interaction, corners: [start, end, end, start] });
+            return;
+          }
+          if (interaction.corners) return;
+          break;
+        case 'POLYGON':
+          // Finished by a later click, Enter or Escape
+          return;
       }
       setInteraction({ type: 'IDLE' });
     };
 
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setInteraction({ type: 'IDLE' });
+      } else if (e.key === 'Enter' && interaction.type === 'POLYGON') {
+        addPolygon(interaction.points);
+        setInteraction({ type: 'IDLE' });
+      } else if (e.key === 'Backspace' && interaction.type === 'POLYGON') {
+        e.preventDefault();
+        const points = interaction.points.slice(0, -1);
+        setInteraction(points.length > 0 ? { ...interaction, points } : { type: 'IDLE' });
+      }
+    };
+
     if (interaction.type !== 'IDLE') {
       window.addEventListener('pointermove', handlePointerMove);
       window.addEventListener('pointerup', handlePointerUp);
     }
+    if (interaction.type === 'POLYGON' || interaction.type === 'ROTATED') {
+      window.addEventListener('keydown', handleKeyDown);
+    }
 
     return () => {
       window.removeEventListener('pointermove', handlePointerMove);
       window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('keydown', handleKeyDown);
     };
   }, [interaction, onAddRisk, onUpdateRisk]);
 
@@ -182,7 +417,7 @@ const ImageViewer: React.FC<Props> = ({
   // --- Render ---
 
   return (
-    <div className="relative w-full h-full flex items-center justify-center bg-[#0f1117] overflow-auto p-4 md:p-8 select-none">
+    <div className="relative w-full h-full bg-[#0f1117] overflow-hidden select-none">
       
       {/* Filter Controls Button */}
       <div className="absolute top-4 left-4 z-30">
@@ -190,6 +425,7 @@ const ImageViewer: React.FC<Props> = ({
           onClick={() => setShowFilters(!showFilters)}
           className={`p-2 rounded-lg shadow-lg border transition-all ${showFilters ? 'bg-blue-600 text-white border-blue-500' : 'bg-gray-900/80 text-gray-300 border-gray-700 hover:bg-gray-800'}`}
           title="Image Filters"
+          aria-expanded={showFilters}
         >
           <Sliders className="w-5 h-5" />
         </button>
@@ -275,22 +511,85 @@ const ImageViewer: React.FC<Props> = ({
         )}
       </div>
 
+      {/* Scrolling viewport; the image is resized to zoom, so percentages below stay valid */}
+      <div
+        ref={viewportRef}
+        className="absolute inset-0 flex overflow-auto"
+        style={{ padding: VIEWPORT_PADDING, cursor: view.isPanning ? 'grabbing' : (view.isSpaceHeld ? 'grab' : undefined) }}
+        onPointerDownCapture={view.handlePointerDownCapture}
+        onScroll={view.updateVisibleArea}
+      >
       <div 
-        className="relative shadow-2xl rounded-[8px] overflow-hidden border border-gray-700 inline-block max-w-full max-h-full touch-none" 
+        className="relative m-auto flex-shrink-0 shadow-2xl rounded-[8px] overflow-hidden border border-gray-700 touch-none" 
         ref={containerRef}
         onPointerDown={handlePointerDown}
-        style={{ cursor: interaction.type === 'DRAWING' ? 'crosshair' : 'default' }}
+        onFocus={() => { hasFocus.current = true; }}
+        onBlur={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) hasFocus.current = false;
+        }}
+        role="group"
+        aria-label={`Screenshot with ${risks.filter(r => r.box_2d && !r.isHidden).length} marked areas`}
+        aria-describedby="viewer-shortcuts"
+        style={{ cursor: view.isSpaceHeld || view.isPanning ? 'inherit' : (interaction.type === 'DRAWING' || tool !== 'rectangle' ? 'crosshair' : 'default') }}
       >
         <img 
           src={imageUrl} 
           alt="Analysis Target" 
-          className="block max-w-full max-h-[80vh] w-auto h-auto object-contain pointer-events-none"
+          className={`block object-contain pointer-events-none ${view.displaySize ? 'max-w-none' : 'max-w-full max-h-[80vh] w-auto h-auto'}`}
           draggable={false}
-          style={{
-            filter: `grayscale(${filters.grayscale}%) sepia(${filters.sepia}%) brightness(${filters.brightness}%) contrast(${filters.contrast}%) blur(${filters.blur}px)`
-          }}
+          onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          style={{ filter: filterToCss(filters), ...(view.displaySize ?? {}) }}
+        />
+
+        {/* Exact preview of the exported pixels, including redactions */}
+        <RedactionCanvas
+          imageUrl={imageUrl}
+          risks={risks}
+          filters={filters}
+          onDraw={canvas => setPreview(prev => ({ canvas, version: (prev?.version ?? 0) + 1 }))}
         />
         
+        {/* Polygon outlines, and the shape being drawn */}
+        <svg
+          className="absolute inset-0 w-full h-full pointer-events-none z-[5]"
+          viewBox="0 0 1000 1000"
+          preserveAspectRatio="none"
+        >
+          {risks.map((risk) => {
+            if (!risk.points || !risk.box_2d || risk.isHidden) return null;
+            const isSelected = selectedId === risk.id;
+            return (
+              <polygon
+                key={risk.id}
+                points={toSvgPoints(risk.points)}
+                fill={risk.isRedacted ? 'none' : (isSelected ? 'rgba(59, 130, 246, 0.2)' : 'rgba(239, 68, 68, 0.15)')}
+                stroke={isSelected ? '#3b82f6' : (risk.isRedacted ? 'rgba(255,255,255,0.5)' : '#ef4444')}
+                strokeWidth={risk.isRedacted && !isSelected ? 1 : 2}
+                strokeDasharray={risk.isRedacted && !isSelected ? '4 3' : undefined}
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          })}
+          {(interaction.type === 'POLYGON' || interaction.type === 'LASSO') && (
+            <polyline
+              points={toSvgPoints(interaction.type === 'POLYGON' ? [...interaction.points, interaction.cursor] : interaction.points)}
+              fill="rgba(59, 130, 246, 0.2)"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          {interaction.type === 'ROTATED' && (
+            <polygon
+              points={toSvgPoints(interaction.corners ?? [interaction.start, interaction.end])}
+              fill="rgba(59, 130, 246, 0.2)"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+
         {/* Render Temporary Drawing Box */}
         {interaction.type === 'DRAWING' && (
           <div 
@@ -304,6 +603,42 @@ const ImageViewer: React.FC<Props> = ({
           />
         )}
         
+        {/* Render search matches */}
+        {highlights.map((box, index) => {
+          const coords = getBoxCoordinates(box);
+          return (
+            <div
+              key={`highlight-${index}`}
+              className="absolute border-2 border-cyan-400 bg-cyan-400/20 rounded-sm pointer-events-none z-30"
+              style={{
+                top: `${coords.top}%`,
+                left: `${coords.left}%`,
+                width: `${coords.width}%`,
+                height: `${coords.height}%`,
+              }}
+            />
+          );
+        })}
+
+        {/* Render the detected (pre-refinement) box of the selected risk for comparison */}
+        {risks.map((risk) => {
+          if (risk.id !== selectedId || !risk.originalBox || risk.isHidden) return null;
+          const coords = getBoxCoordinates(risk.originalBox);
+          return (
+            <div
+              key={`${risk.id}-original`}
+              className="absolute border border-dashed border-yellow-400 pointer-events-none z-40"
+              style={{
+                top: `${coords.top}%`,
+                left: `${coords.left}%`,
+                width: `${coords.width}%`,
+                height: `${coords.height}%`,
+              }}
+              title="Detected box before refinement"
+            />
+          );
+        })}
+
         {/* Render Existing Risks */}
         {risks.map((risk) => {
           if (!risk.box_2d || risk.isHidden) return null;
@@ -311,12 +646,23 @@ const ImageViewer: React.FC<Props> = ({
           const isSelected = selectedId === risk.id;
           const coords = getBoxCoordinates(risk.box_2d);
           const isNearTop = coords.top < 30;
+          // Polygons are drawn by the SVG layer; their box is only the hit area
+          const isPolygon = !!risk.points;
           
           return (
             <div
               key={risk.id}
-              onPointerDown={(e) => handleBoxDown(e, risk.id, risk.box_2d!)}
-              className={`absolute group
+              onPointerDown={(e) => handleBoxDown(e, risk.id, risk.box_2d!, risk.points)}
+              onFocus={() => { if (!isSelected) onSelectRisk(risk.id); }}
+              onPointerEnter={() => onHoverRisk?.(risk.id)}
+              onPointerLeave={() => onHoverRisk?.(null)}
+              data-risk-id={risk.id}
+              role="button"
+              tabIndex={0}
+              aria-label={describeRisk(risk)}
+              aria-current={isSelected || undefined}
+              className={`absolute group outline-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-yellow-400
+                ${hoveredId === risk.id && !isSelected ? 'outline outline-2 outline-offset-2 outline-yellow-400' : ''}
                 ${risk.isRedacted 
                   ? 'z-20' 
                   : 'z-10 hover:bg-red-500/10'
@@ -328,32 +674,23 @@ const ImageViewer: React.FC<Props> = ({
                 width: `${coords.width}%`,
                 height: `${coords.height}%`,
                 cursor: isSelected ? 'move' : 'pointer',
-                // Visual styles
-                backgroundColor: risk.isRedacted ? '#000' : (isSelected ? 'rgba(59, 130, 246, 0.2)' : 'rgba(239, 68, 68, 0.15)'),
-                
-                // Redaction Texture: Diagonal stripes with slight noise/contrast
-                backgroundImage: risk.isRedacted 
-                  ? 'repeating-linear-gradient(45deg, #000 0, #000 4px, #1f2937 4px, #1f2937 8px)' 
-                  : 'none',
+                // Visual styles. Redacted pixels are drawn by RedactionCanvas underneath,
+                // so redacted boxes only need an outline.
+                backgroundColor: risk.isRedacted || isPolygon ? 'transparent' : (isSelected ? 'rgba(59, 130, 246, 0.2)' : 'rgba(239, 68, 68, 0.15)'),
                 
                 // Border for contrast against dark backgrounds
-                border: isSelected 
+                border: isPolygon
+                  ? (isSelected ? '1px dashed rgba(59, 130, 246, 0.6)' : 'none')
+                  : isSelected 
                   ? '2px solid #3b82f6' 
-                  : (risk.isRedacted ? '1px solid rgba(255,255,255,0.3)' : '2px solid #ef4444'),
+                  : (risk.isRedacted ? '1px dashed rgba(255,255,255,0.5)' : '2px solid #ef4444'),
                 
-                boxShadow: isSelected 
+                boxShadow: isSelected && !isPolygon
                   ? '0 0 0 2px rgba(59, 130, 246, 0.3)' 
-                  : (risk.isRedacted ? '0 4px 6px rgba(0,0,0,0.3)' : 'none')
+                  : 'none',
+                borderRadius: risk.shape === 'ellipse' ? '50%' : undefined,
               }}
             >
-              {/* Render Custom Text if Redacted */}
-              {risk.isRedacted && risk.customText && (
-                <div className="absolute inset-0 flex items-center justify-center overflow-hidden pointer-events-none">
-                  <span className="text-white font-bold text-xs md:text-sm px-1 drop-shadow-md truncate">
-                    {risk.customText}
-                  </span>
-                </div>
-              )}
 
               {/* Labels / Controls (only when selected) */}
               {isSelected && (
@@ -375,6 +712,15 @@ const ImageViewer: React.FC<Props> = ({
                             >
                                 {risk.isRedacted ? <EyeOff size={14} /> : <Eye size={14} />}
                             </button>
+                            {risk.originalBox && (
+                              <button
+                                onClick={() => onUpdateRisk(risk.id, risk.originalBox!, undefined, isPolygon ? boxCorners(risk.originalBox!) : undefined)}
+                                className="p-1.5 rounded bg-gray-800 text-gray-400 hover:text-yellow-400 hover:bg-gray-700 transition-colors"
+                                title="Revert to detected box"
+                              >
+                                  <Undo2 size={14} />
+                              </button>
+                            )}
                             <button 
                               onClick={() => onDeleteRisk(risk.id)} 
                               className="p-1.5 rounded bg-gray-800 text-gray-400 hover:text-red-400 hover:bg-gray-700 transition-colors"
@@ -408,6 +754,42 @@ const ImageViewer: React.FC<Props> = ({
                          />
                     </div>
 
+                    {/* Redaction Style (only if redacted) */}
+                    {risk.isRedacted && (
+                        <div>
+                            <label className="block text-[10px] font-semibold text-gray-500 mb-1 uppercase">Redaction Style</label>
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={risk.redactionStyle ?? DEFAULT_REDACTION_STYLE}
+                                    onChange={(e) => onUpdateRiskStyle(risk.id, e.target.value as RedactionStyle, risk.redactionColor ?? DEFAULT_REDACTION_COLOR)}
+                                    className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-1.5 text-xs text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all"
+                                >
+                                    {REDACTION_STYLES.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                                {(risk.redactionStyle ?? DEFAULT_REDACTION_STYLE) === 'solid' && (
+                                    <input
+                                        type="color"
+                                        value={risk.redactionColor ?? DEFAULT_REDACTION_COLOR}
+                                        onChange={(e) => onUpdateRiskStyle(risk.id, 'solid', e.target.value)}
+                                        className="w-8 h-7 bg-gray-800 border border-gray-600 rounded cursor-pointer"
+                                        title="Fill colour"
+                                    />
+                                )}
+                                {!isPolygon && (
+                                <button
+                                    onClick={() => onUpdateRiskShape(risk.id, risk.shape === 'ellipse' ? 'rectangle' : 'ellipse')}
+                                    className="p-1.5 rounded bg-gray-800 border border-gray-600 text-gray-400 hover:text-white transition-colors"
+                                    title={risk.shape === 'ellipse' ? 'Ellipse (switch to rectangle)' : 'Rectangle (switch to ellipse)'}
+                                >
+                                    {risk.shape === 'ellipse' ? <Circle size={14} /> : <Square size={14} />}
+                                </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Label on Image Input (only if redacted) */}
                     {risk.isRedacted && (
                         <div className="pt-1">
@@ -435,7 +817,7 @@ const ImageViewer: React.FC<Props> = ({
                     return (
                       <div
                         key={handle}
-                        onPointerDown={(e) => handleHandleDown(e, risk.id, handle, risk.box_2d!)}
+                        onPointerDown={(e) => handleHandleDown(e, risk.id, handle, risk.box_2d!, risk.points)}
                         className="absolute w-3 h-3 bg-white border-2 border-blue-500 rounded-full z-50 shadow-md hover:scale-125 hover:bg-blue-50 transition-transform flex items-center justify-center"
                         style={{
                           top: isTop ? '-5px' : 'auto',
@@ -445,9 +827,23 @@ const ImageViewer: React.FC<Props> = ({
                           cursor: cursor
                         }}
                         title="Resize"
+                        aria-hidden="true" // Pointer-only; the keyboard has arrow shortcuts
                       />
                     );
                   })}
+
+                  {/* Rotate Handle (ellipses stay axis-aligned) */}
+                  {risk.shape !== 'ellipse' && (
+                    <div
+                      onPointerDown={(e) => handleRotateDown(e, risk)}
+                      className="absolute w-5 h-5 bg-blue-500 text-white rounded-full z-50 shadow-md hover:scale-110 transition-transform flex items-center justify-center"
+                      style={{ top: 'calc(50% - 10px)', right: '-28px', cursor: 'grab' }}
+                      title="Rotate (Shift snaps to 15°)"
+                      aria-hidden="true"
+                    >
+                      <RotateCw size={12} />
+                    </div>
+                  )}
                 </>
               )}
 
@@ -462,16 +858,93 @@ const ImageViewer: React.FC<Props> = ({
             </div>
           );
         })}
+
+        {/* Vertex handles of the selected polygon */}
+        {risks.map((risk) => {
+          if (risk.id !== selectedId || !risk.points || risk.isHidden) return null;
+          const points = risk.points;
+          return (
+            <React.Fragment key={`${risk.id}-vertices`}>
+              {points.map((point, index) => {
+                const next = points[(index + 1) % points.length];
+                return (
+                  <React.Fragment key={index}>
+                    <div
+                      onPointerDown={(e) => handleVertexDown(e, risk, index)}
+                      className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 bg-white border-2 border-blue-500 rounded-sm z-50 shadow-md hover:scale-125 transition-transform cursor-move"
+                      style={{ left: `${point.x / 10}%`, top: `${point.y / 10}%` }}
+                      title="Drag to move point, Alt-click to remove"
+                      aria-hidden="true"
+                    />
+                    <div
+                      onPointerDown={(e) => handleVertexDown(e, risk, index + 1, true)}
+                      className="absolute w-2 h-2 -translate-x-1/2 -translate-y-1/2 bg-blue-500/60 rounded-full z-50 hover:scale-150 transition-transform cursor-copy"
+                      style={{ left: `${(point.x + next.x) / 20}%`, top: `${(point.y + next.y) / 20}%` }}
+                      title="Drag to add a point"
+                      aria-hidden="true"
+                    />
+                  </React.Fragment>
+                );
+              })}
+            </React.Fragment>
+          );
+        })}
+
+        {/* While a polygon or rotated rectangle is half drawn, every click continues it */}
+        {(interaction.type === 'POLYGON' || (interaction.type === 'ROTATED' && interaction.corners)) && (
+          <div className="absolute inset-0 z-[60] cursor-crosshair" onPointerDown={handleDraftPointerDown} />
+        )}
+      </div>
       </div>
       
-      {/* Instructions */}
-      <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 bg-gray-900/90 backdrop-blur text-gray-300 px-5 py-2.5 rounded-full text-sm border border-gray-700 shadow-lg pointer-events-none z-30 flex items-center gap-4">
-        <div className="flex items-center gap-2">
-           <Move className="w-4 h-4 text-blue-400" />
-           <span>Drag to create</span>
+      {/* Drawing tools */}
+      <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 bg-gray-900/90 backdrop-blur text-gray-300 pl-2 pr-5 py-1.5 rounded-full text-sm border border-gray-700 shadow-lg z-30 flex items-center gap-4">
+        <div className="flex items-center gap-1">
+          {DRAW_TOOLS.map(({ value, label, Icon }) => (
+            <button
+              key={value}
+              onClick={() => { setTool(value); setInteraction({ type: 'IDLE' }); }}
+              className={`p-1.5 rounded-full transition-colors ${tool === value ? 'bg-blue-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-800'}`}
+              title={label}
+              aria-pressed={tool === value}
+            >
+              <Icon className={`w-4 h-4 ${value === 'rotated' ? '-rotate-12' : ''}`} />
+            </button>
+          ))}
         </div>
         <div className="w-px h-4 bg-gray-700"></div>
-        <div>Click box to edit</div>
+        <div className="pointer-events-none">
+          {interaction.type === 'POLYGON'
+            ? 'Enter to close · Backspace removes a point · Esc cancels'
+            : DRAW_TOOLS.find(t => t.value === tool)!.hint}
+        </div>
+        <div className="w-px h-4 bg-gray-700"></div>
+        <div className="pointer-events-none">Click box to edit</div>
+        <span title={KEYBOARD_SHORTCUTS} className="text-gray-500 hover:text-gray-300 cursor-help">
+          <Keyboard className="w-4 h-4" aria-hidden="true" />
+        </span>
+        <span id="viewer-shortcuts" className="sr-only">{KEYBOARD_SHORTCUTS}</span>
+      </div>
+
+      {/* Zoom controls and minimap */}
+      <div className="absolute bottom-6 right-4 z-30 flex flex-col items-end gap-2">
+        {view.zoom > 1 && (
+          <Minimap preview={preview} risks={risks} visibleArea={view.visibleArea} onNavigate={view.centerOn} />
+        )}
+        <div className="flex items-center gap-1 bg-gray-900/90 backdrop-blur border border-gray-700 rounded-full px-1.5 py-1 shadow-lg text-gray-300">
+          <button onClick={view.zoomOut} className="p-1 rounded-full hover:bg-gray-800 hover:text-white" title="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="w-12 text-center text-xs tabular-nums" title="Size relative to the original pixels">
+            {Math.round(view.zoom * view.fitScale * 100)}%
+          </span>
+          <button onClick={view.zoomIn} className="p-1 rounded-full hover:bg-gray-800 hover:text-white" title="Zoom in (or scroll the wheel)">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={resetZoom} className="p-1 rounded-full hover:bg-gray-800 hover:text-white" title="Fit to view">
+            <Maximize className="w-4 h-4" />
+          </button>
+        </div>
       </div>
     </div>
   );
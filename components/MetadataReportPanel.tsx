@@ -0,0 +1,68 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle, X, FileText } from 'lucide-react';
+import { AuditReportFormat, MetadataReport } from '../types';
+import { AUDIT_FORMATS } from '../services/reportService';
+
+interface Props {
+  report: MetadataReport;
+  onDownloadAudit: (format: AuditReportFormat) => void;
+  onClose: () => void;
+}
+
+const MetadataReportPanel: React.FC<Props> = ({ report, onDownloadAudit, onClose }) => {
+  const isClean = report.remaining.length === 0;
+
+  return (
+    <div className="w-80 bg-gray-900/95 backdrop-blur border border-gray-700 rounded-xl shadow-2xl p-4 text-xs animate-fade-in">
+      <div className="flex items-center justify-between pb-2 mb-2 border-b border-gray-700">
+        <span className={`flex items-center gap-1.5 font-semibold ${isClean ? 'text-green-400' : 'text-red-400'}`}>
+          {isClean ? <CheckCircle className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+          {isClean ? 'Export contains no metadata' : 'Metadata still present in export'}
+        </span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {report.removed.length === 0 ? (
+        <p className="text-gray-400">The original file had no embedded metadata.</p>
+      ) : (
+        <>
+          <p className="text-gray-400 mb-2">Removed {report.removed.length} field{report.removed.length === 1 ? '' : 's'}:</p>
+          <ul className="max-h-48 overflow-y-auto space-y-1">
+            {report.removed.map((entry, index) => (
+              <li key={index} className="flex justify-between gap-2 text-gray-300">
+                <span className="text-gray-500 flex-shrink-0">{entry.segment}</span>
+                <span className="truncate" title={entry.value}>{entry.key}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {!isClean && (
+        <ul className="mt-2 pt-2 border-t border-gray-700 space-y-1 text-red-300">
+          {report.remaining.map((entry, index) => (
+            <li key={index}>{entry.segment}: {entry.key}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2 mt-3 pt-2 border-t border-gray-700">
+        <FileText className="w-3.5 h-3.5 text-gray-500" />
+        <span className="text-gray-400 flex-1">Audit report</span>
+        {AUDIT_FORMATS.map(format => (
+          <button
+            key={format.value}
+            onClick={() => onDownloadAudit(format.value)}
+            className="px-1.5 py-0.5 rounded border border-gray-600 text-gray-300 hover:text-white hover:border-gray-400"
+          >
+            {format.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MetadataReportPanel;
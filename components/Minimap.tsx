@@ -0,0 +1,87 @@
+import React, { useEffect, useRef } from 'react';
+import { BoundingBox, Point, RiskItem } from '../types';
+
+// Redacted preview canvas; the version changes on every redraw
+export interface MinimapPreview {
+  canvas: HTMLCanvasElement;
+  version: number;
+}
+
+interface Props {
+  preview: MinimapPreview | null;
+  risks: RiskItem[];
+  visibleArea: BoundingBox | null; // Part of the image in view, normalized 0-1000
+  onNavigate: (point: Point) => void; // Centre the view on this point
+}
+
+// Matches w-44; drawn at twice the size for high-density screens
+const MINIMAP_WIDTH = 176;
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  left: `${box.xmin / 10}%`,
+  top: `${box.ymin / 10}%`,
+  width: `${(box.xmax - box.xmin) / 10}%`,
+  height: `${(box.ymax - box.ymin) / 10}%`,
+});
+
+/** Thumbnail copied from the redacted preview, so redacted content stays hidden here too (e.g. when screen sharing). */
+const Minimap: React.FC<Props> = ({ preview, risks, visibleArea, onNavigate }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const source = preview?.canvas;
+    if (!canvas || !source || source.width === 0 || source.height === 0) return;
+    const scale = Math.min(1, (MINIMAP_WIDTH * 2) / source.width);
+    canvas.width = Math.max(1, Math.round(source.width * scale));
+    canvas.height = Math.max(1, Math.round(source.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  }, [preview]);
+
+  const navigate = (e: React.PointerEvent) => {
+    const rect = ref.current?.getBoundingClientRect();
+    if (!rect) return;
+    onNavigate({
+      x: Math.max(0, Math.min(1000, ((e.clientX - rect.left) / rect.width) * 1000)),
+      y: Math.max(0, Math.min(1000, ((e.clientY - rect.top) / rect.height) * 1000)),
+    });
+  };
+
+  if (!preview) return null;
+
+  return (
+    <div
+      ref={ref}
+      className="relative w-44 rounded-md overflow-hidden border border-gray-700 shadow-lg cursor-pointer touch-none"
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        navigate(e);
+      }}
+      onPointerMove={(e) => {
+        if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e);
+      }}
+      title="Click or drag to move the view"
+    >
+      <canvas ref={canvasRef} className="block w-full h-auto pointer-events-none opacity-80" />
+      {risks.map(risk => risk.box_2d && !risk.isHidden && !risk.isRedacted && (
+        <div
+          key={risk.id}
+          className="absolute pointer-events-none bg-red-500/60"
+          style={boxStyle(risk.box_2d)}
+        />
+      ))}
+      {visibleArea && (
+        <div
+          className="absolute border-2 border-blue-400 bg-blue-400/10 pointer-events-none"
+          style={boxStyle(visibleArea)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { PolicyAction, PolicyRule, RedactionPolicy, RedactionShape, RedactionStyle, RiskLevel, RiskSource } from '../types';
+import { DEFAULT_REDACTION_COLOR, REDACTION_SHAPES, REDACTION_STYLES } from '../utils/redaction';
+import { triggerDownload } from '../utils/canvasUtils';
+import {
+  createPolicyRule,
+  DEFAULT_REDACTION_POLICY,
+  parseRedactionPolicy,
+  POLICY_ACTIONS,
+  serializeRedactionPolicy,
+} from '../services/policyService';
+
+interface Props {
+  policy: RedactionPolicy;
+  onChange: (policy: RedactionPolicy) => void;
+  inputClass: string;
+  labelClass: string;
+}
+
+const ACTION_LABELS: Record<PolicyAction, string> = {
+  redact: 'Auto-redact',
+  flag: 'Flag for review',
+  ignore: 'Ignore',
+};
+
+const SOURCE_LABELS: Record<RiskSource, string> = {
+  ai: 'AI',
+  rules: 'Patterns',
+  dictionary: 'Dictionary',
+  metadata: 'Metadata',
+};
+
+const LEVELS = [RiskLevel.HIGH, RiskLevel.MEDIUM, RiskLevel.LOW, RiskLevel.SAFE];
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`px-1.5 py-0.5 rounded text-[10px] font-semibold border transition-colors ${
+      active ? 'bg-blue-900/40 border-blue-700 text-blue-300' : 'border-gray-700 text-gray-500 hover:text-gray-300'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const PolicyEditor: React.FC<Props> = ({ policy, onChange, inputClass, labelClass }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateRule = (id: string, patch: Partial<PolicyRule>) =>
+    onChange({ ...policy, rules: policy.rules.map(rule => rule.id === id ? { ...rule, ...patch } : rule) });
+
+  const moveRule = (index: number, offset: number) => {
+    const rules = [...policy.rules];
+    const [rule] = rules.splice(index, 1);
+    rules.splice(index + offset, 0, rule);
+    onChange({ ...policy, rules });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseRedactionPolicy(await file.text()));
+      setImportError(null);
+    } catch (error: any) {
+      setImportError(error.message);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeRedactionPolicy(policy)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const slug = policy.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'policy';
+    triggerDownload(url, `${slug}.policy.json`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <label className={labelClass}>Policy Name</label>
+          <input
+            type="text"
+            value={policy.name}
+            onChange={(e) => onChange({ ...policy, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="relative">
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+            title="Import policy JSON"
+          />
+          <span className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-300 border border-gray-600 rounded">
+            <Upload className="w-3.5 h-3.5" />
+            Import
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={handleExport}
+          className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-300 border border-gray-600 rounded hover:text-white"
+          title="Export policy JSON"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Export
+        </button>
+      </div>
+      {importError && <p className="text-[11px] text-red-400">{importError}</p>}
+
+      <p className="text-[11px] text-gray-500">
+        Rules are checked top to bottom and the first match decides. Empty filters match everything; the type pattern is a case-insensitive regular expression.
+      </p>
+
+      {policy.rules.map((rule, index) => (
+        <div key={rule.id} className="p-2 bg-gray-800/60 border border-gray-700 rounded space-y-2">
+          <div className="flex items-center gap-1 flex-wrap">
+            {LEVELS.map(level => (
+              <Chip key={level} active={rule.riskLevels.includes(level)} onClick={() => updateRule(rule.id, { riskLevels: toggle(rule.riskLevels, level) })}>
+                {level}
+              </Chip>
+            ))}
+            <span className="w-px h-4 bg-gray-700 mx-1" />
+            {(Object.keys(SOURCE_LABELS) as RiskSource[]).map(source => (
+              <Chip key={source} active={rule.sources.includes(source)} onClick={() => updateRule(rule.id, { sources: toggle(rule.sources, source) })}>
+                {SOURCE_LABELS[source]}
+              </Chip>
+            ))}
+            <div className="ml-auto flex items-center">
+              <button type="button" onClick={() => moveRule(index, -1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-white disabled:opacity-30" title="Move up">
+                <ArrowUp className="w-3.5 h-3.5" />
+              </button>
+              <button type="button" onClick={() => moveRule(index, 1)} disabled={index === policy.rules.length - 1} className="p-1 text-gray-500 hover:text-white disabled:opacity-30" title="Move down">
+                <ArrowDown className="w-3.5 h-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange({ ...policy, rules: policy.rules.filter(r => r.id !== rule.id) })}
+                className="p-1 text-gray-500 hover:text-red-400"
+                title="Remove rule"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={rule.typePattern}
+              onChange={(e) => updateRule(rule.id, { typePattern: e.target.value })}
+              className={inputClass}
+              placeholder="Type pattern, e.g. name|email"
+            />
+            <select
+              value={rule.action}
+              onChange={(e) => updateRule(rule.id, { action: e.target.value as PolicyAction })}
+              className={inputClass}
+            >
+              {POLICY_ACTIONS.map(action => <option key={action} value={action}>{ACTION_LABELS[action]}</option>)}
+            </select>
+          </div>
+          {rule.action === 'redact' && (
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={rule.label ?? ''}
+                onChange={(e) => updateRule(rule.id, { label: e.target.value || undefined })}
+                className={inputClass}
+                placeholder="Label (optional)"
+              />
+              <select
+                value={rule.redactionStyle ?? ''}
+                onChange={(e) => updateRule(rule.id, { redactionStyle: (e.target.value || undefined) as RedactionStyle | undefined })}
+                className={inputClass}
+              >
+                <option value="">Default style</option>
+                {REDACTION_STYLES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+              <select
+                value={rule.shape ?? ''}
+                onChange={(e) => updateRule(rule.id, { shape: (e.target.value || undefined) as RedactionShape | undefined })}
+                className={inputClass}
+              >
+                <option value="">Default shape</option>
+                {REDACTION_SHAPES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+              {rule.redactionStyle === 'solid' && (
+                <input
+                  type="color"
+                  value={rule.redactionColor ?? DEFAULT_REDACTION_COLOR}
+                  onChange={(e) => updateRule(rule.id, { redactionColor: e.target.value })}
+                  className="w-9 h-8 shrink-0 bg-transparent border border-gray-600 rounded cursor-pointer"
+                  title="Colour"
+                />
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <button
+          type="button"
+          onClick={() => onChange({ ...policy, rules: [...policy.rules, createPolicyRule()] })}
+          className="flex items-center gap-1 text-xs text-blue-400 hover:underline"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add rule
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_REDACTION_POLICY)}
+          className="text-xs text-gray-500 hover:text-gray-300"
+        >
+          Reset to default
+        </button>
+      </div>
+
+      <div>
+        <label className={labelClass}>When No Rule Matches</label>
+        <select
+          value={policy.defaultAction}
+          onChange={(e) => onChange({ ...policy, defaultAction: e.target.value as PolicyAction })}
+          className={inputClass}
+        >
+          {POLICY_ACTIONS.map(action => <option key={action} value={action}>{ACTION_LABELS[action]}</option>)}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input
+          type="checkbox"
+          checked={!!policy.keepOwnAvatar}
+          onChange={(e) => onChange({ ...policy, keepOwnAvatar: e.target.checked })}
+          className="accent-blue-500"
+        />
+        Keep my own avatar visible
+      </label>
+      <p className="text-[11px] text-gray-500 -mt-2">
+        Your own profile picture, when the model recognizes it, is flagged for review instead of redacted.
+      </p>
+    </div>
+  );
+};
+
+export default PolicyEditor;
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RiskItem, ImageFilters } from '../types';
+import { drawRedactedImage, loadImage, renderFilteredImageData } from '../utils/canvasUtils';
+
+// Blur and pixelate at full resolution are too slow to redo on every pointermove
+// of a drag, so the preview waits until the boxes stop changing
+const REDRAW_DELAY_MS = 120;
+
+interface Props {
+  imageUrl: string;
+  risks: RiskItem[];
+  filters: ImageFilters;
+  onDraw?: (canvas: HTMLCanvasElement) => void; // The redacted pixels were redrawn
+}
+
+/**
+ * Pixel-exact preview of the export, drawn at the image's natural resolution
+ * and scaled to fit its container.
+ */
+const RedactionCanvas: React.FC<Props> = ({ imageUrl, risks, filters, onDraw }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [base, setBase] = useState<ImageData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Draw the first frame for a new image at once; only edits are delayed
+  const drawnBase = useRef<ImageData | null>(null);
+
+  // Filtered pixels only change with the image or filters, not on every box edit
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadImage(imageUrl)
+      .then(img => {
+        if (!cancelled) setBase(renderFilteredImageData(img, filters));
+      })
+      .catch(err => {
+        console.error("Preview Error:", err);
+        if (!cancelled) {
+          setBase(null);
+          setError("Could not render the redaction preview.");
+        }
+      });
+    return () => { cancelled = true; };
+  }, [imageUrl, filters]);
+
+  useEffect(() => {
+    if (!base || !canvasRef.current) return;
+    const timer = setTimeout(() => {
+      if (!canvasRef.current) return;
+      drawRedactedImage(canvasRef.current, base, risks);
+      drawnBase.current = base;
+      onDraw?.(canvasRef.current);
+    }, drawnBase.current === base ? REDRAW_DELAY_MS : 0);
+    return () => clearTimeout(timer);
+  }, [base, risks]);
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        style={{ visibility: base ? 'visible' : 'hidden' }}
+      />
+      {error && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 px-3 py-1.5 rounded-lg bg-red-900/80 border border-red-700 text-xs text-red-200 pointer-events-none" role="alert">
+          {error}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RedactionCanvas;
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { LocalDetectionMode, ProviderId, ProviderSettings, VerificationMode } from '../types';
+import { PROVIDERS } from '../services/analysisService';
+import { clearAnalysisCache } from '../services/cacheService';
+import Button from './Button';
+import PolicyEditor from './PolicyEditor';
+import DictionaryEditor from './DictionaryEditor';
+import { clampTileMaxSide, MIN_TILE_SIDE } from '../utils/tiling';
+
+interface Props {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-gray-800 border border-gray-600 rounded px-2 py-1.5 text-sm text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition-all";
+const labelClass = "block text-[10px] font-semibold text-gray-500 mb-1 uppercase";
+
+const SettingsPanel: React.FC<Props> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  const [cacheCleared, setCacheCleared] = useState(false);
+
+  const update = (patch: Partial<ProviderSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleClearCache = () => {
+    clearAnalysisCache()
+      .then(() => setCacheCleared(true))
+      .catch(err => console.warn("Could not clear the analysis cache:", err));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fade-in">
+      <div className="w-full max-w-lg max-h-full flex flex-col bg-gray-900 border border-gray-700 rounded-xl shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">Settings</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <label className={labelClass}>Detection Provider</label>
+            <select
+              value={draft.providerId}
+              onChange={(e) => update({ providerId: e.target.value as ProviderId })}
+              className={inputClass}
+            >
+              {Object.values(PROVIDERS).map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>On-device Detection</label>
+            <select
+              value={draft.localDetection}
+              onChange={(e) => update({ localDetection: e.target.value as LocalDetectionMode })}
+              className={inputClass}
+            >
+              <option value="merge">Merge with provider results</option>
+              <option value="replace">On-device only (no network)</option>
+              <option value="off">Off</option>
+            </select>
+            <p className="text-[11px] text-gray-500 mt-1">
+              OCR and pattern rules (emails, phones, cards, IBANs, IPs) run in your browser.
+            </p>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={draft.refineBoxes}
+                onChange={(e) => update({ refineBoxes: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Snap boxes to detected text
+            </label>
+            {draft.refineBoxes && (
+              <div className="mt-2">
+                <label className={labelClass}>Safety Margin (px)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={draft.refineMarginPx}
+                  onChange={(e) => update({ refineMarginPx: Math.max(0, Number(e.target.value)) })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className={labelClass}>Verify Export</label>
+            <select
+              value={draft.verifyExport}
+              onChange={(e) => update({ verifyExport: e.target.value as VerificationMode })}
+              className={inputClass}
+            >
+              <option value="off">Off</option>
+              <option value="warn">Re-scan and warn</option>
+              <option value="block">Re-scan and block the download</option>
+            </select>
+            <p className="text-[11px] text-gray-500 mt-1">
+              Runs detection again on the rendered image and flags HIGH or MEDIUM findings outside redacted boxes.
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Capture Delay (seconds)</label>
+            <input
+              type="number"
+              min={0}
+              max={30}
+              value={draft.captureDelaySeconds}
+              onChange={(e) => update({ captureDelaySeconds: Math.min(30, Math.max(0, Math.round(Number(e.target.value)))) })}
+              className={inputClass}
+            />
+            <p className="text-[11px] text-gray-500 mt-1">
+              Counts down after the shutter is pressed, so you can switch to the window you want to capture. 0 captures at once.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={draft.cacheResults}
+                  onChange={(e) => update({ cacheResults: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                Reuse results for identical images
+              </label>
+              <Button variant="ghost" onClick={handleClearCache} disabled={cacheCleared} className="text-xs">
+                {cacheCleared ? 'Cache cleared' : 'Clear cache'}
+              </Button>
+            </div>
+            <p className="text-[11px] text-gray-500 mt-1">
+              Opening the same image again with the same model and settings restores the earlier review without calling the provider.
+            </p>
+          </div>
+
+          <div>
+            <label className={labelClass}>Concurrent Provider Calls</label>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={draft.batchConcurrency}
+              onChange={(e) => update({ batchConcurrency: Math.min(10, Math.max(1, Number(e.target.value))) })}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Tile Images Larger Than (px)</label>
+            <input
+              type="number"
+              min={0}
+              step={256}
+              value={draft.tileMaxSide}
+              onChange={(e) => update({ tileMaxSide: Math.max(0, Number(e.target.value)) })}
+              // Clamped on blur so typing a size digit by digit is not cut short
+              onBlur={() => update({ tileMaxSide: clampTileMaxSide(draft.tileMaxSide) })}
+              className={inputClass}
+            />
+            <p className="text-[11px] text-gray-500 mt-1">
+              Large or very wide screenshots are sent as overlapping tiles of this size so small text stays readable. 0 sends the whole image; the smallest tile size is {MIN_TILE_SIDE} px.
+            </p>
+          </div>
+
+          {draft.providerId === 'gemini' && (
+            <div>
+              <label className={labelClass}>Model</label>
+              <input
+                type="text"
+                value={draft.geminiModel}
+                onChange={(e) => update({ geminiModel: e.target.value })}
+                className={inputClass}
+                placeholder="gemini-2.5-flash"
+              />
+            </div>
+          )}
+
+          {draft.providerId === 'openai-compatible' && (
+            <>
+              <div>
+                <label className={labelClass}>Base URL</label>
+                <input
+                  type="text"
+                  value={draft.httpBaseUrl}
+                  onChange={(e) => update({ httpBaseUrl: e.target.value })}
+                  className={inputClass}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Model</label>
+                <input
+                  type="text"
+                  value={draft.httpModel}
+                  onChange={(e) => update({ httpModel: e.target.value })}
+                  className={inputClass}
+                  placeholder="llava"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>API Key (optional)</label>
+                <input
+                  type="password"
+                  value={draft.httpApiKey}
+                  onChange={(e) => update({ httpApiKey: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-white mb-3">Sensitive Terms</h3>
+            <DictionaryEditor
+              entries={draft.dictionary}
+              onChange={(dictionary) => update({ dictionary })}
+              inputClass={inputClass}
+            />
+          </div>
+
+          <div className="pt-4 border-t border-gray-700">
+            <h3 className="text-sm font-semibold text-white mb-3">Redaction Policy</h3>
+            <PolicyEditor
+              policy={draft.redactionPolicy}
+              onChange={(redactionPolicy) => update({ redactionPolicy })}
+              inputClass={inputClass}
+              labelClass={labelClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={() => onSave({ ...draft, tileMaxSide: clampTileMaxSide(draft.tileMaxSide) })}>Save</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react';
+import { VerificationResult } from '../types';
+
+interface Props {
+  result: VerificationResult | null;
+  isVerifying: boolean;
+}
+
+const VerificationBadge: React.FC<Props> = ({ result, isVerifying }) => {
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (isVerifying) {
+    return (
+      <span className="flex items-center gap-1.5 px-3 rounded-lg text-xs font-medium bg-gray-900/80 border border-gray-700 text-gray-300 shadow-lg">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Verifying…
+      </span>
+    );
+  }
+  if (!result) return null;
+
+  return (
+    <div className="relative flex">
+      <button
+        onClick={() => setShowDetails(prev => !prev)}
+        disabled={result.passed}
+        className={`flex items-center gap-1.5 px-3 rounded-lg text-xs font-medium border shadow-lg ${
+          result.passed
+            ? 'bg-green-900/40 border-green-800 text-green-300 cursor-default'
+            : 'bg-red-900/40 border-red-800 text-red-300 hover:bg-red-900/60'
+        }`}
+        title={result.passed ? 'A re-scan of the export found nothing outside the redactions' : 'Show what the re-scan found'}
+      >
+        {result.passed ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+        {result.passed
+          ? 'Verified'
+          : `${result.leaks.length} possible leak${result.leaks.length === 1 ? '' : 's'}${result.blocked ? ' · blocked' : ''}`}
+      </button>
+
+      {showDetails && !result.passed && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-gray-900/95 backdrop-blur border border-gray-700 rounded-xl shadow-2xl p-3 text-xs z-20 animate-fade-in">
+          <p className="text-gray-400 mb-2">
+            {result.blocked
+              ? 'The download was blocked. Redact these areas and download again.'
+              : 'The image was downloaded, but a re-scan still found:'}
+          </p>
+          <ul className="max-h-48 overflow-y-auto space-y-1.5">
+            {result.leaks.map(({ risk, original }) => (
+              <li key={risk.id} className="text-gray-300">
+                <span className="font-semibold">{risk.type}</span>
+                <span className="text-gray-500"> · {risk.riskLevel}</span>
+                <div className="text-gray-500">
+                  {original
+                    ? `Matches "${original.type}", which is ${original.isHidden ? 'ignored' : original.isRedacted ? 'only partly covered' : 'not redacted'}`
+                    : risk.source === 'metadata' ? 'Still embedded in the file' : 'Not found during review'}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerificationBadge;
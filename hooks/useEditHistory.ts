@@ -0,0 +1,62 @@
+import { useCallback, useRef, useState } from 'react';
+
+// Older steps are dropped beyond this
+const MAX_HISTORY = 100;
+
+interface HistoryStacks<T> {
+  past: T[];
+  future: T[];
+  // Consecutive edits with the same group collapse into one undo step
+  lastGroup: string | null;
+}
+
+/**
+ * Snapshot-based undo/redo. Callers keep the live state themselves and
+ * `record` the state as it was just before each edit.
+ */
+export const useEditHistory = <T,>() => {
+  const stacks = useRef<HistoryStacks<T>>({ past: [], future: [], lastGroup: null });
+  // Mirrors the stack sizes so toolbar buttons re-render
+  const [sizes, setSizes] = useState({ past: 0, future: 0 });
+
+  const sync = () => setSizes({ past: stacks.current.past.length, future: stacks.current.future.length });
+
+  const record = useCallback((before: T, group?: string) => {
+    const current = stacks.current;
+    if (group && group === current.lastGroup) return;
+    current.past = [...current.past, before].slice(-MAX_HISTORY);
+    current.future = [];
+    current.lastGroup = group ?? null;
+    sync();
+  }, []);
+
+  /** Returns the state to restore, or null when there is nothing to undo. */
+  const undo = useCallback((present: T): T | null => {
+    const current = stacks.current;
+    const previous = current.past[current.past.length - 1];
+    if (previous === undefined) return null;
+    current.past = current.past.slice(0, -1);
+    current.future = [present, ...current.future];
+    current.lastGroup = null;
+    sync();
+    return previous;
+  }, []);
+
+  const redo = useCallback((present: T): T | null => {
+    const current = stacks.current;
+    const [next, ...rest] = current.future;
+    if (next === undefined) return null;
+    current.past = [...current.past, present];
+    current.future = rest;
+    current.lastGroup = null;
+    sync();
+    return next;
+  }, []);
+
+  const clear = useCallback(() => {
+    stacks.current = { past: [], future: [], lastGroup: null };
+    sync();
+  }, []);
+
+  return { record, undo, redo, clear, canUndo: sizes.past > 0, canRedo: sizes.future > 0 };
+};
@@ -0,0 +1,261 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { BoundingBox, Point } from '../types';
+
+export const MIN_ZOOM = 1; // Whole image fits the viewport
+export const MAX_ZOOM = 16;
+// Space kept around the image inside the viewport, in screen pixels
+export const VIEWPORT_PADDING = 32;
+// Zooming to a finding leaves it this share of the viewport
+const FOCUS_FILL = 0.5;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Keeps `point` (0-1000 on the image) under the client position after the next layout
+interface Anchor {
+  point: Point;
+  clientX: number;
+  clientY: number;
+}
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Space types into these or activates them, so it must not start a pan there.
+// The finding boxes are role=button but have no Space action, so they still pan.
+const usesSpace = (target: EventTarget | null) =>
+  target instanceof HTMLElement
+  && (target.isContentEditable || !!target.closest('button, a[href], input, select, textarea, summary, [role=checkbox], [role=switch]'));
+
+/**
+ * Zoom and pan for an image shown inside a scrolling viewport. The content is
+ * resized rather than CSS-scaled, so overlays positioned in percentages stay
+ * aligned and handles keep their screen size, and getBoundingClientRect()
+ * maths on the content is correct at any zoom.
+ *
+ * Wheel and pinch zoom around the pointer; space-drag or the middle button pans.
+ */
+export const useZoomPan = (
+  viewportRef: React.RefObject<HTMLDivElement | null>,
+  contentRef: React.RefObject<HTMLDivElement | null>,
+  naturalSize: Size | null,
+  onGestureStart?: () => void // A pan or pinch took over the pointer
+) => {
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [fitSize, setFitSize] = useState<Size | null>(null);
+  const [anchor, setAnchor] = useState<Anchor | null>(null);
+  const [visibleArea, setVisibleArea] = useState<BoundingBox | null>(null);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const pan = useRef<{ startX: number; startY: number; scrollLeft: number; scrollTop: number } | null>(null);
+  const touches = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ distance: number; zoom: number } | null>(null);
+
+  // --- Fit ---
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !naturalSize) return;
+    const measure = () => {
+      const availableWidth = Math.max(1, viewport.clientWidth - 2 * VIEWPORT_PADDING);
+      const availableHeight = Math.max(1, viewport.clientHeight - 2 * VIEWPORT_PADDING);
+      // Never upscale small screenshots to fit; zoom does that on request
+      const scale = Math.min(1, availableWidth / naturalSize.width, availableHeight / naturalSize.height);
+      setFitSize({ width: naturalSize.width * scale, height: naturalSize.height * scale });
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [viewportRef, naturalSize]);
+
+  const displaySize = fitSize && { width: fitSize.width * zoom, height: fitSize.height * zoom };
+
+  // --- Visible area, for the minimap ---
+
+  const updateVisibleArea = useCallback(() => {
+    const viewport = viewportRef.current?.getBoundingClientRect();
+    const content = contentRef.current?.getBoundingClientRect();
+    if (!viewport || !content || content.width === 0 || content.height === 0) return;
+    const toX = (clientX: number) => Math.min(1000, Math.max(0, ((clientX - content.left) / content.width) * 1000));
+    const toY = (clientY: number) => Math.min(1000, Math.max(0, ((clientY - content.top) / content.height) * 1000));
+    setVisibleArea({ xmin: toX(viewport.left), xmax: toX(viewport.right), ymin: toY(viewport.top), ymax: toY(viewport.bottom) });
+  }, [viewportRef, contentRef]);
+
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current?.getBoundingClientRect();
+    if (anchor && viewport && content) {
+      viewport.scrollLeft += content.left + (anchor.point.x / 1000) * content.width - anchor.clientX;
+      viewport.scrollTop += content.top + (anchor.point.y / 1000) * content.height - anchor.clientY;
+      setAnchor(null);
+    }
+    updateVisibleArea();
+  }, [anchor, zoom, fitSize, viewportRef, contentRef, updateVisibleArea]);
+
+  // --- Zoom ---
+
+  const viewportCenter = () => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return rect ? { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 } : { clientX: 0, clientY: 0 };
+  };
+
+  const pointAt = (clientX: number, clientY: number): Point | null => {
+    const rect = contentRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return { x: ((clientX - rect.left) / rect.width) * 1000, y: ((clientY - rect.top) / rect.height) * 1000 };
+  };
+
+  /** Changes the zoom, keeping the image point under the client position (default: viewport centre) still. */
+  const zoomAt = useCallback((update: (zoom: number) => number, clientX?: number, clientY?: number) => {
+    const target = clientX !== undefined && clientY !== undefined ? { clientX, clientY } : viewportCenter();
+    const point = pointAt(target.clientX, target.clientY);
+    if (point) setAnchor({ point, ...target });
+    setZoom(current => clampZoom(update(current)));
+  }, []);
+
+  const zoomIn = () => zoomAt(z => z * 1.5);
+  const zoomOut = () => zoomAt(z => z / 1.5);
+  const resetZoom = useCallback(() => setZoom(MIN_ZOOM), []);
+
+  /** Scrolls `point` (0-1000) to the middle of the viewport. */
+  const centerOn = useCallback((point: Point) => setAnchor({ point, ...viewportCenter() }), []);
+
+  /** Zooms in until the box fills about half the viewport, and centres it. */
+  const zoomToBox = useCallback((box: BoundingBox) => {
+    const viewport = viewportRef.current;
+    if (!viewport || !fitSize) return;
+    const boxWidth = Math.max(1, ((box.xmax - box.xmin) / 1000) * fitSize.width);
+    const boxHeight = Math.max(1, ((box.ymax - box.ymin) / 1000) * fitSize.height);
+    setZoom(clampZoom(Math.min(viewport.clientWidth / boxWidth, viewport.clientHeight / boxHeight) * FOCUS_FILL));
+    setAnchor({ point: { x: (box.xmin + box.xmax) / 2, y: (box.ymin + box.ymax) / 2 }, ...viewportCenter() });
+  }, [viewportRef, fitSize]);
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      zoomAt(z => z * Math.exp(-delta * (e.ctrlKey ? 0.01 : 0.002)), e.clientX, e.clientY);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [viewportRef, zoomAt]);
+
+  // --- Pan ---
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || usesSpace(e.target)) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isPanning) return;
+    const handlePointerMove = (e: PointerEvent) => {
+      const viewport = viewportRef.current;
+      if (!viewport || !pan.current) return;
+      viewport.scrollLeft = pan.current.scrollLeft - (e.clientX - pan.current.startX);
+      viewport.scrollTop = pan.current.scrollTop - (e.clientY - pan.current.startY);
+    };
+    const handlePointerUp = () => {
+      pan.current = null;
+      setIsPanning(false);
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [isPanning, viewportRef]);
+
+  // --- Pinch ---
+
+  useEffect(() => {
+    const distance = () => {
+      const [a, b] = [...touches.current.values()];
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!touches.current.has(e.pointerId)) return;
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (!pinch.current || touches.current.size !== 2) return;
+      const [a, b] = [...touches.current.values()];
+      const start = pinch.current;
+      zoomAt(() => start.zoom * (distance() / start.distance), (a.x + b.x) / 2, (a.y + b.y) / 2);
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      touches.current.delete(e.pointerId);
+      if (touches.current.size < 2) pinch.current = null;
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [zoomAt]);
+
+  /** Attach to the viewport as onPointerDownCapture, so pans and pinches win over drawing. */
+  const handlePointerDownCapture = (e: React.PointerEvent) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    if (e.pointerType === 'touch') {
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touches.current.size === 2) {
+        e.preventDefault();
+        e.stopPropagation();
+        const [a, b] = [...touches.current.values()];
+        pinch.current = { distance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)), zoom };
+        onGestureStart?.();
+        return;
+      }
+    }
+
+    if (isSpaceHeld || e.button === 1) {
+      e.preventDefault();
+      e.stopPropagation();
+      pan.current = { startX: e.clientX, startY: e.clientY, scrollLeft: viewport.scrollLeft, scrollTop: viewport.scrollTop };
+      setIsPanning(true);
+      onGestureStart?.();
+    }
+  };
+
+  return {
+    zoom,
+    displaySize,
+    fitScale: fitSize && naturalSize ? fitSize.width / naturalSize.width : 1,
+    visibleArea,
+    isSpaceHeld,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    zoomToBox,
+    centerOn,
+    updateVisibleArea,
+    handlePointerDownCapture,
+  };
+};
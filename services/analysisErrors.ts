@@ -0,0 +1,56 @@
+import { AnalysisErrorKind } from "../types";
+
+// Bad keys and safety blocks fail the same way every time
+const TRANSIENT_KINDS: AnalysisErrorKind[] = ['quota', 'network', 'malformed', 'provider'];
+
+interface AnalysisErrorOptions {
+  cause?: unknown;
+  retryable?: boolean; // Defaults by kind
+  retryAfterMs?: number; // Server-requested wait before retrying
+}
+
+export class AnalysisError extends Error {
+  readonly kind: AnalysisErrorKind;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AnalysisErrorKind, message: string, options: AnalysisErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AnalysisError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? TRANSIENT_KINDS.includes(kind);
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+const GUIDANCE: Record<AnalysisErrorKind, string> = {
+  'missing-key': "Set GEMINI_API_KEY, or add a key for your provider in Settings.",
+  'quota': "The provider is rate limiting requests. Wait a minute, lower Concurrent Provider Calls, or check your plan's quota.",
+  'safety': "The provider refused to process this image. Try On-device only detection in Settings, or a different provider.",
+  'malformed': "The model returned an unusable answer. Try again or pick a different model in Settings.",
+  'network': "Could not reach the provider. Check your connection and the provider URL in Settings.",
+  'provider': "The provider had a problem. Try again shortly.",
+};
+
+/** Classifies a failed HTTP response from a provider. */
+export const errorForStatus = (status: number, message: string, options: AnalysisErrorOptions = {}) => {
+  if (status === 401 || status === 403) return new AnalysisError('missing-key', message, options);
+  if (status === 429) return new AnalysisError('quota', message, options);
+  // Other 4xx responses are request problems that a retry will not fix
+  return new AnalysisError('provider', message, { retryable: status >= 500, ...options });
+};
+
+// What fetch rejects with when the request never got a response, per engine:
+// Chromium, Firefox, Safari, Node (undici) and React Native polyfills
+const FETCH_FAILURE_MESSAGE = /failed to fetch|networkerror|load failed|fetch failed|network request failed/i;
+
+// Other TypeErrors are bugs, which a retry or the user's connection will not fix
+export const isNetworkFailure = (error: unknown) =>
+  (error instanceof TypeError && FETCH_FAILURE_MESSAGE.test(error.message))
+  || (typeof navigator !== 'undefined' && navigator.onLine === false);
+
+/** Text for the UI: what went wrong plus what the user can do about it. */
+export const describeAnalysisError = (error: unknown): string => {
+  if (error instanceof AnalysisError) return `${error.message} ${GUIDANCE[error.kind]}`;
+  return error instanceof Error && error.message ? error.message : "Analysis failed";
+};
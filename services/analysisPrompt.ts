@@ -0,0 +1,199 @@
+import { AnalysisResult, BoundingBox, DictionaryEntry, RiskItem, RiskLevel } from "../types";
+import { AnalysisError } from "./analysisErrors";
+import { contentId, ensureUniqueIds } from "../utils/riskIds";
+
+export const ANALYSIS_PROMPT = `Analyze this screenshot for privacy risks and PII (Personally Identifiable Information).
+            Look for:
+            1. Small text, footers, and metadata.
+            2. Browser tabs that reveal interests or internal tools.
+            3. Usernames, real names, email addresses.
+            4. URL parameters containing session IDs or tokens.
+            5. Timestamps, locations, weather widgets.
+            6. QR codes or barcodes.
+            7. System tray icons or dock apps.
+            8. Faces of people (photos, video call tiles) and profile pictures. Use the type "Face" for faces
+               and "Avatar" for profile pictures, and box only the face or picture itself. Set isSelf to true
+               for the signed-in user's own avatar, e.g. in the account menu or next to their own messages.
+
+            For each risk, provide a bounding box [ymin, xmin, ymax, xmax] on a 0-1000 scale.
+            If a specific bounding box is hard to determine for a general risk (like 'metadata'), omit it or approximate the area.
+            Be thorough. It is better to flag potential risks than miss them.`;
+
+/** The analysis prompt, with the organisation dictionary appended as hints. */
+export const buildAnalysisPrompt = (dictionary: DictionaryEntry[]) => {
+  const hints = dictionary
+    .filter(entry => entry.term.trim())
+    .map(entry => {
+      const term = entry.isRegex ? `text matching /${entry.term}/` : `"${entry.term.trim()}"`;
+      const type = entry.label.trim() || entry.term.trim();
+      return `- ${term}: report as type "${type}" with riskLevel ${entry.riskLevel}`;
+    });
+  if (hints.length === 0) return ANALYSIS_PROMPT;
+  return `${ANALYSIS_PROMPT}
+
+These organisation-specific terms (internal codenames, customers, hostnames) are sensitive too. Flag every place they appear:
+${hints.join('\n')}`;
+};
+
+// Spelled-out shape for providers that cannot take a response schema (plain JSON mode)
+export const ANALYSIS_JSON_SHAPE = `Respond with JSON only, matching this shape:
+{"summary": string, "risks": [{"type": string, "description": string, "riskLevel": "HIGH" | "MEDIUM" | "LOW" | "SAFE", "box_2d": [ymin, xmin, ymax, xmax], "isSelf"?: boolean}]}`;
+
+// Finding types of the face/avatar category, as named in the prompt
+export const FACE_TYPE_PATTERN = '^(face|avatar)';
+
+export const isFaceFinding = (risk: RiskItem) => new RegExp(FACE_TYPE_PATTERN, 'i').test(risk.type.trim());
+
+const RISK_LEVELS = Object.values(RiskLevel) as string[];
+
+const clampCoordinate = (value: number) => Math.min(1000, Math.max(0, value));
+
+/**
+ * Accepts [ymin, xmin, ymax, xmax] or {ymin, xmin, ymax, xmax}. Swaps inverted
+ * edges, rescales 0-1 fractions to 0-1000 and clamps to the image. Returns
+ * null for anything that does not describe a non-empty area.
+ */
+export const normalizeBox = (raw: unknown): BoundingBox | null => {
+  const values = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object'
+      ? ['ymin', 'xmin', 'ymax', 'xmax'].map(key => (raw as Record<string, unknown>)[key])
+      : null;
+  if (!values || values.length !== 4) return null;
+
+  const numbers = values.map(v => typeof v === 'string' ? Number(v) : v);
+  if (!numbers.every((n): n is number => typeof n === 'number' && Number.isFinite(n))) return null;
+
+  // Some models answer in fractions despite the prompt
+  const scale = numbers.every(n => n >= 0 && n <= 1) ? 1000 : 1;
+  const [y0, x0, y1, x1] = numbers.map(n => clampCoordinate(n * scale));
+  const box = {
+    ymin: Math.min(y0, y1),
+    xmin: Math.min(x0, x1),
+    ymax: Math.max(y0, y1),
+    xmax: Math.max(x0, x1),
+  };
+  return box.xmax > box.xmin && box.ymax > box.ymin ? box : null;
+};
+
+const normalizeLevel = (raw: unknown): RiskLevel => {
+  const level = typeof raw === 'string' ? raw.trim().toUpperCase() : '';
+  // An unknown level still gets reviewed; dropping the finding would hide it
+  return RISK_LEVELS.includes(level) ? level as RiskLevel : RiskLevel.MEDIUM;
+};
+
+const text = (raw: unknown) => typeof raw === 'string' ? raw.trim() : '';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toRiskItem = (risk: Record<string, unknown>): RiskItem => {
+  const type = text(risk.type) || 'Unknown';
+  const description = text(risk.description);
+  const box_2d = normalizeBox(risk.box_2d);
+  return {
+    // Located findings are identified by where they are; box-less ones by what they say
+    id: box_2d ? contentId('risk', type, box_2d) : contentId('risk', type, description),
+    type,
+    description,
+    riskLevel: normalizeLevel(risk.riskLevel),
+    box_2d,
+    isRedacted: false, // Decided later by the redaction policy
+    isHidden: false,
+    source: 'ai',
+    ...(risk.isSelf === true ? { isSelf: true } : {}),
+  };
+};
+
+// Streamed and final parses see the findings in the same order, so they agree on IDs
+const toRiskItems = (risks: unknown[]) => ensureUniqueIds(risks.filter(isObject).map(toRiskItem));
+
+/**
+ * Converts the raw JSON returned by a provider into an AnalysisResult.
+ * Shared by every provider so IDs, defaults and validation stay consistent.
+ * Throws a `malformed` AnalysisError when the payload is not usable at all.
+ */
+export const parseAnalysisResponse = (responseText: string): AnalysisResult => {
+  let data: unknown;
+  try {
+    // Tolerate models that wrap JSON in a markdown code fence
+    data = JSON.parse(responseText.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (error) {
+    throw new AnalysisError('malformed', "The model response was not valid JSON.", { cause: error });
+  }
+  if (!isObject(data) || !Array.isArray(data.risks)) {
+    throw new AnalysisError('malformed', "The model response did not contain a list of risks.");
+  }
+
+  return {
+    summary: text(data.summary) || "Analysis complete.",
+    risks: toRiskItems(data.risks),
+  };
+};
+
+/**
+ * Pulls every complete object out of the "risks" array of a JSON response
+ * that is still arriving. Incomplete trailing objects are ignored until the
+ * rest of them streams in.
+ */
+export const parsePartialRisks = (partial: string): RiskItem[] => {
+  const objects: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString = '';
+  let key: string | null = null;
+  let inRisks = false;
+  let objectStart = -1;
+
+  for (let i = 0; i < partial.length; i++) {
+    const char = partial[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') {
+        inString = false;
+        lastString = partial.slice(stringStart + 1, i);
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      stringStart = i;
+    } else if (char === ':' && depth === 1) {
+      key = lastString;
+    } else if (char === '{' || char === '[') {
+      if (inRisks && depth === 2 && char === '{') objectStart = i;
+      if (!inRisks && depth === 1 && char === '[' && key === 'risks') inRisks = true;
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (inRisks && depth === 2 && char === '}' && objectStart >= 0) {
+        try {
+          objects.push(JSON.parse(partial.slice(objectStart, i + 1)));
+        } catch {
+          // Skip an object the final parse will reject as well
+        }
+        objectStart = -1;
+      }
+      if (inRisks && depth === 1) inRisks = false;
+    }
+  }
+
+  return toRiskItems(objects);
+};
+
+/** Feeds accumulated response text to `onPartial`, but only when a new finding completed. */
+export const createPartialParser = (onPartial?: (risks: RiskItem[]) => void) => {
+  let count = 0;
+  return (accumulated: string) => {
+    if (!onPartial) return;
+    const risks = parsePartialRisks(accumulated);
+    if (risks.length > count) {
+      count = risks.length;
+      onPartial(risks);
+    }
+  };
+};
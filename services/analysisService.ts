@@ -0,0 +1,229 @@
+import { AnalysisResult, DetectionProvider, OcrResult, ProviderId, ProviderSettings, RiskItem } from "../types";
+import { geminiProvider } from "./geminiService";
+import { openAICompatibleProvider } from "./openAICompatibleService";
+import { recognizeText } from "./ocrService";
+import { detectWithRules } from "./ruleDetector";
+import { detectWithDictionary } from "./dictionaryService";
+import { refineRiskBoxes } from "./boxRefiner";
+import { base64ToBytes, inspectMetadata, metadataToRisks } from "./metadataService";
+import { applyRedactionPolicy } from "./policyService";
+import { iou } from "../utils/geometry";
+import { encodePngBase64, loadImageData } from "../utils/canvasUtils";
+import { PixelBuffer } from "../utils/redaction";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { clampTileMaxSide, cropPixels, mergeTileFindings, planTiles, projectBox } from "../utils/tiling";
+import { withRetry } from "../utils/retry";
+import { AnalysisError } from "./analysisErrors";
+
+export const PROVIDERS: Record<ProviderId, DetectionProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+};
+
+// Local findings overlapping a provider finding this much are treated as duplicates
+const MERGE_IOU_THRESHOLD = 0.5;
+// Tiles of one image in flight at once. Kept small because batch items already
+// run in parallel, and the two limits multiply.
+const TILE_CONCURRENCY = 2;
+
+const mergeRisks = (aiRisks: RiskItem[], localRisks: RiskItem[]) => [
+  ...aiRisks,
+  ...localRisks.filter(local =>
+    !aiRisks.some(ai => ai.box_2d && local.box_2d && iou(ai.box_2d, local.box_2d) >= MERGE_IOU_THRESHOLD)
+  ),
+];
+
+const RETRY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 10000;
+
+type PartialCallback = (risks: RiskItem[]) => void;
+type ProviderCall = (base64Image: string, mimeType: string, onPartial?: PartialCallback) => Promise<AnalysisResult>;
+
+// Transient failures (rate limits, network, 5xx, garbled JSON) get a few more tries
+const withProviderRetries = (provider: DetectionProvider, settings: ProviderSettings, signal?: AbortSignal): ProviderCall =>
+  (base64Image, mimeType, onPartial) => withRetry(() => provider.analyze(base64Image, mimeType, settings, { signal, onPartial }), {
+    attempts: RETRY_ATTEMPTS,
+    baseDelayMs: RETRY_BASE_DELAY_MS,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+    shouldRetry: error => error instanceof AnalysisError && error.retryable,
+    delayFor: error => error instanceof AnalysisError ? error.retryAfterMs : undefined,
+    signal,
+  });
+
+const localSummary = (risks: RiskItem[], note: string) =>
+  `${note} On-device rules found ${risks.length} item${risks.length === 1 ? '' : 's'}.`;
+
+/**
+ * Sends overlapping crops of a large image to the provider so small text
+ * stays legible, then maps the findings back to full-image coordinates.
+ */
+const analyzeInTiles = async (
+  analyze: ProviderCall,
+  image: PixelBuffer,
+  settings: ProviderSettings,
+  encodeImage: (image: PixelBuffer) => Promise<string>,
+  onPartial?: PartialCallback
+): Promise<AnalysisResult> => {
+  const tiles = planTiles(image.width, image.height, clampTileMaxSide(settings.tileMaxSide));
+  const toImageRisks = (risks: RiskItem[], tileIndex: number) => risks.map(risk => ({
+    ...risk,
+    // Per-tile IDs restart at zero, so make them unique across tiles
+    id: `${risk.id}-t${tileIndex}`,
+    box_2d: risk.box_2d ? projectBox(risk.box_2d, tiles[tileIndex], image.width, image.height) : risk.box_2d,
+  }));
+
+  const partials: RiskItem[][] = tiles.map(() => []);
+  const results = await mapWithConcurrency(tiles, Math.min(TILE_CONCURRENCY, settings.batchConcurrency), async (tile, tileIndex) =>
+    analyze(await encodeImage(cropPixels(image, tile)), 'image/png', onPartial && (risks => {
+      partials[tileIndex] = toImageRisks(risks, tileIndex);
+      onPartial(mergeTileFindings(partials.flat()));
+    }))
+  );
+
+  const risks = results.flatMap((result, tileIndex) => toImageRisks(result.risks, tileIndex));
+  const busiest = results.reduce((best, result) => result.risks.length > best.risks.length ? result : best);
+
+  return {
+    summary: `Scanned in ${tiles.length} overlapping tiles. ${busiest.summary}`,
+    risks: mergeTileFindings(risks),
+  };
+};
+
+const detect = async (
+  provider: DetectionProvider,
+  analyzeWithProvider: () => Promise<AnalysisResult>,
+  settings: ProviderSettings,
+  ocrPromise: Promise<OcrResult> | null,
+  requireProvider: boolean
+): Promise<AnalysisResult> => {
+  if (settings.localDetection === 'off' || !ocrPromise) {
+    return analyzeWithProvider();
+  }
+
+  if (settings.localDetection === 'replace') {
+    const risks = detectWithRules(await ocrPromise);
+    return { summary: localSummary(risks, 'Scanned on-device only.'), risks };
+  }
+
+  // Merge mode: skip the network entirely when offline, and fall back to
+  // local findings if the provider fails (e.g. missing API key)
+  const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  const providerCall = !isOffline
+    ? analyzeWithProvider()
+    : Promise.reject(new Error("Offline"));
+  const [remote, local] = await Promise.allSettled([providerCall, ocrPromise.then(detectWithRules)]);
+
+  if (remote.status === 'fulfilled') {
+    if (local.status === 'rejected') {
+      console.warn("On-device detection failed:", local.reason);
+      return remote.value;
+    }
+    return { ...remote.value, risks: mergeRisks(remote.value.risks, local.value) };
+  }
+
+  if (local.status === 'fulfilled' && !requireProvider) {
+    console.warn("Provider unavailable, using on-device results:", remote.reason);
+    return {
+      summary: localSummary(local.value, `${provider.label} was unavailable.`),
+      risks: local.value,
+    };
+  }
+
+  throw remote.reason;
+};
+
+// Curated dictionary terms replace generic findings covering the same words
+const addDictionaryMatches = async (
+  result: AnalysisResult,
+  settings: ProviderSettings,
+  ocrPromise: Promise<OcrResult> | null
+): Promise<AnalysisResult> => {
+  if (settings.dictionary.length === 0 || !ocrPromise) return result;
+  try {
+    const matches = detectWithDictionary(await ocrPromise, settings.dictionary);
+    return { ...result, risks: mergeRisks(matches, result.risks) };
+  } catch (error) {
+    console.warn("Dictionary matching failed:", error);
+    return result;
+  }
+};
+
+export interface AnalysisOptions {
+  // Decodes an image data URL to RGBA pixels. Defaults to the browser canvas;
+  // headless callers pass their own decoder.
+  decodeImage?: (imageUrl: string) => Promise<PixelBuffer>;
+  // Encodes pixels to base64 PNG for tiled analysis
+  encodeImage?: (image: PixelBuffer) => Promise<string>;
+  // Cancels provider calls in flight; the returned promise rejects with the abort reason
+  signal?: AbortSignal;
+  // Provider findings parsed so far, with the redaction policy applied, while the response streams in
+  onPartialResult?: PartialCallback;
+  // Rethrow provider failures instead of falling back to on-device findings in merge mode
+  requireProvider?: boolean;
+  // Rethrow OCR failures instead of continuing without on-device findings and box refinement
+  requireOcr?: boolean;
+}
+
+export const analyzeScreenshot = async (
+  base64Image: string,
+  mimeType: string,
+  settings: ProviderSettings,
+  { decodeImage = loadImageData, encodeImage = encodePngBase64, signal, onPartialResult, requireProvider = false, requireOcr = false }: AnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  signal?.throwIfAborted();
+  const imageUrl = `data:${mimeType};base64,${base64Image}`;
+  const imagePromise = decodeImage(imageUrl);
+  imagePromise.catch(() => undefined);
+
+  const needsOcr = settings.localDetection !== 'off' || settings.refineBoxes || settings.dictionary.length > 0;
+  const ocrPromise = needsOcr
+    ? imagePromise.then(image => recognizeText(imageUrl, image.width, image.height))
+    : null;
+  // Avoid unhandled rejections; each consumer handles OCR failure itself
+  ocrPromise?.catch(() => undefined);
+
+  const provider = PROVIDERS[settings.providerId] ?? geminiProvider;
+  const analyze = withProviderRetries(provider, settings, signal);
+  const onPartial = onPartialResult && ((risks: RiskItem[]) => {
+    if (!signal?.aborted) onPartialResult(applyRedactionPolicy(risks, settings.redactionPolicy));
+  });
+  const analyzeWithProvider = async () => {
+    // Fall back to the whole image if it cannot be decoded for cropping
+    // Settings saved before the minimum existed may hold a tiny size
+    const tileMaxSide = clampTileMaxSide(settings.tileMaxSide);
+    const image = tileMaxSide > 0 ? await imagePromise.catch(() => null) : null;
+    return image && Math.max(image.width, image.height) > tileMaxSide
+      ? analyzeInTiles(analyze, image, settings, encodeImage, onPartial)
+      : analyze(base64Image, mimeType, onPartial);
+  };
+
+  const detected = await detect(provider, analyzeWithProvider, settings, ocrPromise, requireProvider);
+  if (requireOcr) await ocrPromise;
+  const result = await addDictionaryMatches(
+    detected,
+    settings,
+    ocrPromise
+  );
+  // Merge mode would otherwise fall back to local findings after a cancel
+  signal?.throwIfAborted();
+  // Pixels-only models cannot see embedded metadata, so read it from the file bytes
+  const metadataRisks = metadataToRisks(inspectMetadata(base64ToBytes(base64Image)));
+  if (!settings.refineBoxes) {
+    return { ...result, risks: applyRedactionPolicy([...result.risks, ...metadataRisks], settings.redactionPolicy) };
+  }
+
+  const [ocr, image] = await Promise.all([
+    ocrPromise?.catch(() => null) ?? null,
+    imagePromise.catch(() => null),
+  ]);
+  signal?.throwIfAborted();
+
+  return {
+    ...result,
+    risks: applyRedactionPolicy([
+      ...refineRiskBoxes(result.risks, { ocr, image, marginPx: settings.refineMarginPx }),
+      ...metadataRisks,
+    ], settings.redactionPolicy),
+  };
+};
@@ -0,0 +1,39 @@
+import { BatchItem, ExportOptions } from "../types";
+import { readFileAsDataUrl } from "../utils/fileUtils";
+import { DEFAULT_FILTERS, renderExport } from "../utils/canvasUtils";
+import { createZip, uniqueNames } from "../utils/zip";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { base64ToBytes } from "./metadataService";
+
+export const createBatchItem = async (file: File): Promise<BatchItem> => {
+  const imageUrl = await readFileAsDataUrl(file);
+  return {
+    id: `batch-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    // Keep the folder structure from directory picks/drops in the name
+    fileName: file.webkitRelativePath || file.name,
+    mimeType: file.type,
+    imageUrl,
+    imageBase64: imageUrl.split(',')[1],
+    status: 'queued',
+    analysisResult: null,
+    filters: DEFAULT_FILTERS,
+    error: null,
+  };
+};
+
+/** Renders every approved item and packs the results into a single zip. */
+export const exportBatchZip = async (items: BatchItem[], options: ExportOptions): Promise<Blob> => {
+  const rendered = await mapWithConcurrency(items, 2, item =>
+    renderExport(item.imageUrl, item.analysisResult?.risks ?? [], item.filters, options, {
+      mimeType: item.mimeType,
+      fileName: item.fileName,
+    })
+  );
+
+  const names = uniqueNames(rendered.map(r => r.fileName));
+  const zip = createZip(rendered.map((r, i) => ({
+    name: names[i],
+    data: base64ToBytes(r.dataUrl.split(',')[1]),
+  })));
+  return new Blob([zip], { type: 'application/zip' });
+};
@@ -0,0 +1,149 @@
+import { BoundingBox, OcrResult, RiskItem } from "../types";
+import { boxArea, intersectionArea, unionBox } from "../utils/geometry";
+import { PixelBuffer } from "../utils/redaction";
+import { isFaceFinding } from "./analysisPrompt";
+
+// How far (0-1000 units) a detected box may be off and still be snapped
+const SEARCH_TOLERANCE = 20;
+// Minimum share of a word's area that must fall inside the search area
+const WORD_OVERLAP_RATIO = 0.3;
+// Summed RGB distance from the background that counts as "ink"
+const INK_THRESHOLD = 60;
+
+const expand = (box: BoundingBox, amount: number): BoundingBox => ({
+  ymin: box.ymin - amount,
+  xmin: box.xmin - amount,
+  ymax: box.ymax + amount,
+  xmax: box.xmax + amount,
+});
+
+const clampBox = (box: BoundingBox): BoundingBox => ({
+  ymin: Math.max(0, box.ymin),
+  xmin: Math.max(0, box.xmin),
+  ymax: Math.min(1000, box.ymax),
+  xmax: Math.min(1000, box.xmax),
+});
+
+/**
+ * Aligns a box to the OCR words it (roughly) covers. Never shrinks below the
+ * detected box when the words only explain a small part of it, so boxes that
+ * deliberately cover non-text areas (avatars, QR codes) keep their coverage.
+ */
+const snapToWords = (box: BoundingBox, ocr: OcrResult): BoundingBox | null => {
+  const searchArea = expand(box, SEARCH_TOLERANCE);
+  const words = ocr.words.filter(word => {
+    const area = boxArea(word.box);
+    return area > 0
+      && intersectionArea(word.box, box) > 0
+      && intersectionArea(word.box, searchArea) / area >= WORD_OVERLAP_RATIO;
+  });
+  if (words.length === 0) return null;
+
+  const snapped = unionBox(words.map(w => w.box));
+  return boxArea(snapped) >= boxArea(box) * 0.5 ? snapped : unionBox([box, snapped]);
+};
+
+/**
+ * Aligns a box to the content drawn inside it: the box is first tightened to
+ * the ink it contains, then grown outward while the neighbouring row/column
+ * still contains ink, up to the search tolerance.
+ */
+const snapToPixels = (box: BoundingBox, image: PixelBuffer): BoundingBox | null => {
+  const { width, height, data } = image;
+  const toPx = (v: number, size: number) => Math.round((v / 1000) * size);
+  const limit = clampBox(expand(box, SEARCH_TOLERANCE));
+  const lx0 = toPx(limit.xmin, width), lx1 = Math.min(width - 1, toPx(limit.xmax, width));
+  const ly0 = toPx(limit.ymin, height), ly1 = Math.min(height - 1, toPx(limit.ymax, height));
+
+  // Background is the most common (quantized) colour along the border of the search area
+  const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, n: 0 };
+    bucket.r += data[i]; bucket.g += data[i + 1]; bucket.b += data[i + 2]; bucket.n++;
+    buckets.set(key, bucket);
+  };
+  for (let x = lx0; x <= lx1; x++) { sample(x, ly0); sample(x, ly1); }
+  for (let y = ly0; y <= ly1; y++) { sample(lx0, y); sample(lx1, y); }
+  let top: { r: number; g: number; b: number; n: number } | null = null;
+  buckets.forEach(bucket => { if (!top || bucket.n > top.n) top = bucket; });
+  if (!top) return null;
+  const { r, g, b, n } = top;
+  const bg = [r / n, g / n, b / n];
+
+  const isInk = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return Math.abs(data[i] - bg[0]) + Math.abs(data[i + 1] - bg[1]) + Math.abs(data[i + 2] - bg[2]) > INK_THRESHOLD;
+  };
+  const rowHasInk = (y: number, x0: number, x1: number) => {
+    for (let x = x0; x <= x1; x++) if (isInk(x, y)) return true;
+    return false;
+  };
+  const colHasInk = (x: number, y0: number, y1: number) => {
+    for (let y = y0; y <= y1; y++) if (isInk(x, y)) return true;
+    return false;
+  };
+
+  let x0 = Math.max(lx0, toPx(box.xmin, width)), x1 = Math.min(lx1, toPx(box.xmax, width));
+  let y0 = Math.max(ly0, toPx(box.ymin, height)), y1 = Math.min(ly1, toPx(box.ymax, height));
+
+  // Tighten to the ink inside the detected box
+  while (y0 <= y1 && !rowHasInk(y0, x0, x1)) y0++;
+  while (y1 >= y0 && !rowHasInk(y1, x0, x1)) y1--;
+  if (y0 > y1) return null;
+  while (x0 <= x1 && !colHasInk(x0, y0, y1)) x0++;
+  while (x1 >= x0 && !colHasInk(x1, y0, y1)) x1--;
+
+  // Grow outward while ink continues past the edges
+  let grown = true;
+  while (grown) {
+    grown = false;
+    if (y0 > ly0 && rowHasInk(y0 - 1, x0, x1)) { y0--; grown = true; }
+    if (y1 < ly1 && rowHasInk(y1 + 1, x0, x1)) { y1++; grown = true; }
+    if (x0 > lx0 && colHasInk(x0 - 1, y0, y1)) { x0--; grown = true; }
+    if (x1 < lx1 && colHasInk(x1 + 1, y0, y1)) { x1++; grown = true; }
+  }
+
+  return {
+    ymin: (y0 / height) * 1000,
+    xmin: (x0 / width) * 1000,
+    ymax: ((y1 + 1) / height) * 1000,
+    xmax: ((x1 + 1) / width) * 1000,
+  };
+};
+
+export interface RefineOptions {
+  ocr: OcrResult | null;
+  image: PixelBuffer | null;
+  marginPx: number;
+}
+
+/**
+ * Snaps each risk box to the nearest OCR words, falling back to pixel edges,
+ * then pads it with a safety margin. The detected box is kept in originalBox.
+ */
+export const refineRiskBoxes = (risks: RiskItem[], { ocr, image, marginPx }: RefineOptions): RiskItem[] => {
+  const width = image?.width ?? ocr?.width ?? 1000;
+  const height = image?.height ?? ocr?.height ?? 1000;
+  const marginX = (marginPx / width) * 1000;
+  const marginY = (marginPx / height) * 1000;
+
+  return risks.map(risk => {
+    if (!risk.box_2d) return risk;
+    const box = risk.box_2d;
+    // Faces have no text to snap to, and their soft edges would shrink the box
+    const snapped = isFaceFinding(risk) ? box : (ocr && snapToWords(box, ocr)) || (image && snapToPixels(box, image)) || box;
+
+    return {
+      ...risk,
+      originalBox: box,
+      box_2d: clampBox({
+        ymin: snapped.ymin - marginY,
+        xmin: snapped.xmin - marginX,
+        ymax: snapped.ymax + marginY,
+        xmax: snapped.xmax + marginX,
+      }),
+    };
+  });
+};
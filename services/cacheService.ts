@@ -0,0 +1,124 @@
+import { AnalysisCacheEntry, AnalysisResult, ImageFilters, ProviderSettings, ReviewSnapshot, RiskItem } from "../types";
+import { hashString, sha256Hex } from "../utils/hash";
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut } from "../utils/indexedDb";
+import { analyzeScreenshot, AnalysisOptions } from "./analysisService";
+import { ANALYSIS_JSON_SHAPE, ANALYSIS_PROMPT } from "./analysisPrompt";
+import { base64ToBytes } from "./metadataService";
+
+// Bump when the shape of cached results changes, so older entries are re-analyzed
+const CACHE_VERSION = 1;
+const MAX_ENTRIES = 50;
+
+export const imageHash = (base64Image: string) => sha256Hex(base64ToBytes(base64Image));
+
+/** Everything that changes what an analysis returns. A cached result is reused only on a match. */
+export const analysisFingerprint = (settings: ProviderSettings) => hashString(JSON.stringify([
+  CACHE_VERSION,
+  settings.providerId,
+  settings.providerId === 'gemini' ? settings.geminiModel : [settings.httpBaseUrl, settings.httpModel],
+  ANALYSIS_PROMPT,
+  ANALYSIS_JSON_SHAPE,
+  settings.localDetection,
+  settings.refineBoxes && settings.refineMarginPx,
+  settings.tileMaxSide,
+  settings.redactionPolicy,
+  settings.dictionary,
+]));
+
+/** Resolves to null on a miss or when IndexedDB is unavailable. */
+export const loadCachedAnalysis = async (hash: string): Promise<AnalysisCacheEntry | null> => {
+  try {
+    const entry = await idbGet<AnalysisCacheEntry>('analyses', hash);
+    if (!entry) return null;
+    idbPut('analyses', hash, { ...entry, lastUsedAt: Date.now() }).catch(() => undefined);
+    return entry;
+  } catch {
+    return null;
+  }
+};
+
+const evictOldEntries = async () => {
+  const entries = await idbGetAll<AnalysisCacheEntry>('analyses');
+  const stale = entries.sort((a, b) => b.lastUsedAt - a.lastUsedAt).slice(MAX_ENTRIES);
+  await Promise.all(stale.map(entry => idbDelete('analyses', entry.hash)));
+};
+
+export const saveCachedAnalysis = async (entry: Omit<AnalysisCacheEntry, 'lastUsedAt'>) => {
+  await idbPut('analyses', entry.hash, { ...entry, lastUsedAt: Date.now() });
+  await evictOldEntries();
+};
+
+/** Records the latest edits for an image that is already cached. */
+export const saveCachedReview = async (hash: string, review: ReviewSnapshot) => {
+  const entry = await idbGet<AnalysisCacheEntry>('analyses', hash);
+  if (entry) await idbPut('analyses', hash, { ...entry, review, lastUsedAt: Date.now() });
+};
+
+export const clearAnalysisCache = () => idbClear('analyses');
+
+/**
+ * Carries the reviewer's decisions over to a fresh analysis of the same image.
+ * Risk IDs are derived from content, so a finding seen again keeps its edits,
+ * deleted findings stay deleted and manual boxes are kept.
+ */
+export const reapplyEdits = (fresh: AnalysisResult, reviewed: AnalysisResult): AnalysisResult => {
+  const reviewedById = new Map(reviewed.risks.map(risk => [risk.id, risk]));
+  const deletedIds = new Set((reviewed.deletedRisks ?? []).map(risk => risk.id));
+  const freshIds = new Set(fresh.risks.map(risk => risk.id));
+
+  return {
+    ...fresh,
+    risks: [
+      ...fresh.risks.filter(risk => !deletedIds.has(risk.id)).map(risk => reviewedById.get(risk.id) ?? risk),
+      ...reviewed.risks.filter(risk => risk.isManual && !freshIds.has(risk.id)),
+    ],
+    deletedRisks: reviewed.deletedRisks ?? [],
+  };
+};
+
+export interface CachedAnalysis {
+  hash: string | null; // Null when caching is off or the cache could not be used
+  analysisResult: AnalysisResult;
+  filters: ImageFilters | null; // Filters from the cached review, if any
+  fromCache: boolean;
+}
+
+/**
+ * Analyzes an image unless an identical one was analyzed with the same
+ * settings before, in which case the prior review is returned instantly.
+ * `refresh` forces a new analysis but still re-applies the prior edits.
+ */
+export const analyzeWithCache = async (
+  base64Image: string,
+  mimeType: string,
+  settings: ProviderSettings,
+  { refresh = false, ...options }: AnalysisOptions & { refresh?: boolean } = {}
+): Promise<CachedAnalysis> => {
+  const hash = settings.cacheResults ? await imageHash(base64Image).catch(() => null) : null;
+  const fingerprint = analysisFingerprint(settings);
+  const entry = hash ? await loadCachedAnalysis(hash) : null;
+  const review = entry?.review ?? null;
+  options.signal?.throwIfAborted();
+
+  if (entry && entry.fingerprint === fingerprint && !refresh) {
+    return { hash, analysisResult: review?.analysisResult ?? entry.analysisResult, filters: review?.filters ?? null, fromCache: true };
+  }
+
+  const withEdits = (result: AnalysisResult) => review ? reapplyEdits(result, review.analysisResult) : result;
+  const { onPartialResult } = options;
+  const analysisResult = await analyzeScreenshot(base64Image, mimeType, settings, {
+    ...options,
+    onPartialResult: onPartialResult && ((risks: RiskItem[]) => onPartialResult(withEdits({ summary: '', risks }).risks)),
+  });
+  const reviewed = withEdits(analysisResult);
+
+  if (hash) {
+    await saveCachedAnalysis({
+      hash,
+      fingerprint,
+      analysisResult,
+      review: review && { ...review, analysisResult: reviewed },
+    }).catch(err => console.warn("Could not cache the analysis:", err));
+  }
+  return { hash, analysisResult: reviewed, filters: review?.filters ?? null, fromCache: false };
+};
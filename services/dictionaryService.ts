@@ -0,0 +1,117 @@
+import { DictionaryEntry, OcrResult, RiskItem, RiskLevel } from "../types";
+import { iou } from "../utils/geometry";
+import { contentId, ensureUniqueIds } from "../utils/riskIds";
+import { findTextMatches } from "./ruleDetector";
+
+const RISK_LEVELS = Object.values(RiskLevel);
+// Matches of two entries over the same words are one finding
+const DUPLICATE_IOU = 0.5;
+
+export const createDictionaryEntry = (): DictionaryEntry => ({
+  id: `term-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  term: '',
+  isRegex: false,
+  label: '',
+  riskLevel: RiskLevel.HIGH,
+});
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Case-insensitive global pattern for a term, or null when it is empty or not a valid regex. */
+export const textPattern = (term: string, isRegex: boolean): RegExp | null => {
+  if (!term.trim()) return null;
+  try {
+    return new RegExp(isRegex ? term : escapeRegExp(term.trim()), 'gi');
+  } catch {
+    return null;
+  }
+};
+
+export const entryType = (entry: DictionaryEntry) => entry.label.trim() || entry.term.trim();
+
+/**
+ * Finds dictionary terms in OCR output. Each finding takes the entry's label
+ * as its type, so policies can target specific terms.
+ */
+export const detectWithDictionary = (ocr: OcrResult, entries: DictionaryEntry[]): RiskItem[] => {
+  const risks: RiskItem[] = [];
+
+  entries.forEach(entry => {
+    const pattern = textPattern(entry.term, entry.isRegex);
+    if (!pattern) return;
+    const type = entryType(entry);
+
+    findTextMatches(ocr, pattern).forEach(match => {
+      // Earlier entries win when two match the same words
+      if (risks.some(risk => risk.box_2d && iou(risk.box_2d, match.box) >= DUPLICATE_IOU)) return;
+      risks.push({
+        id: contentId('dict', type, match.text),
+        type,
+        description: `Matches "${entry.term}" from the organisation dictionary.`,
+        riskLevel: entry.riskLevel,
+        box_2d: match.box,
+        isRedacted: false,
+        isHidden: false,
+        source: 'dictionary',
+      });
+    });
+  });
+
+  return ensureUniqueIds(risks);
+};
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid dictionary: ${message}`);
+};
+
+const parseEntry = (raw: unknown, index: number): DictionaryEntry => {
+  // A bare string is a literal term
+  const data: unknown = typeof raw === 'string' ? { term: raw } : raw;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return fail(`entry ${index + 1} is not an object`);
+  const entry = data as Record<string, unknown>;
+  const term = entry.term;
+  if (typeof term !== 'string' || !term.trim()) return fail(`entry ${index + 1} has no term`);
+  const isRegex = entry.isRegex === true;
+  if (isRegex && !textPattern(term, true)) fail(`entry ${index + 1} has an invalid regular expression`);
+  const riskLevel = entry.riskLevel ?? RiskLevel.HIGH;
+  if (!RISK_LEVELS.includes(riskLevel as RiskLevel)) fail(`entry ${index + 1} has an unknown risk level`);
+
+  return {
+    ...createDictionaryEntry(),
+    ...(typeof entry.id === 'string' && entry.id ? { id: entry.id } : {}),
+    term,
+    isRegex,
+    label: typeof entry.label === 'string' ? entry.label : '',
+    riskLevel: riskLevel as RiskLevel,
+  };
+};
+
+/**
+ * Reads a dictionary file: either the JSON written by `serializeDictionary`,
+ * or plain text with one term per line, where `/pattern/` lines are regexes.
+ * Throws with a readable message on bad input.
+ */
+export const parseDictionary = (text: string): DictionaryEntry[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      return fail('not valid JSON');
+    }
+    const entries = Array.isArray(data) ? data : (data as { entries?: unknown } | null)?.entries;
+    if (!Array.isArray(entries)) return fail('expected an array of entries');
+    return entries.map(parseEntry);
+  }
+
+  return trimmed.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map((line, index) => {
+      const regex = /^\/(.+)\/$/.exec(line);
+      return parseEntry(regex ? { term: regex[1], isRegex: true } : { term: line }, index);
+    });
+};
+
+export const serializeDictionary = (entries: DictionaryEntry[]) => JSON.stringify({ entries }, null, 2);
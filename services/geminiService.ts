@@ -1,7 +1,38 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { AnalysisResult, RiskLevel } from "../types";
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Type, Schema } from "@google/genai";
+import { AnalysisResult, DetectionProvider, ProviderCallOptions, ProviderSettings } from "../types";
+import { buildAnalysisPrompt, createPartialParser, parseAnalysisResponse } from "./analysisPrompt";
+import { AnalysisError, errorForStatus, isNetworkFailure } from "./analysisErrors";
 
-const API_KEY = process.env.API_KEY;
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+];
+
+const checkSafety = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+    throw new AnalysisError('safety', `Gemini blocked the request (${blockReason ?? finishReason}).`);
+  }
+};
+
+const toAnalysisError = (error: unknown): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+  if (error instanceof ApiError) {
+    // Invalid keys come back as 400 INVALID_ARGUMENT rather than 401
+    if (error.status === 400 && /api key/i.test(error.message)) {
+      return new AnalysisError('missing-key', "Gemini rejected the API key.", { cause: error });
+    }
+    return errorForStatus(error.status, `Gemini responded with ${error.status}.`, { cause: error });
+  }
+  if (isNetworkFailure(error)) {
+    return new AnalysisError('network', "Could not reach Gemini.", { cause: error });
+  }
+  return new AnalysisError('provider', "Gemini failed to analyze the image.", { cause: error });
+};
 
 const analysisSchema: Schema = {
   type: Type.OBJECT,
@@ -32,8 +63,12 @@ const analysisSchema: Schema = {
             type: Type.ARRAY,
             description: "Bounding box coordinates [ymin, xmin, ymax, xmax] normalized to 0-1000.",
             items: { type: Type.INTEGER },
-            minItems: 4,
-            maxItems: 4,
+            minItems: "4",
+            maxItems: "4",
+          },
+          isSelf: {
+            type: Type.BOOLEAN,
+            description: "True only for the signed-in user's own avatar.",
           },
         },
         required: ["type", "description", "riskLevel"],
@@ -43,79 +78,61 @@ const analysisSchema: Schema = {
   required: ["summary", "risks"],
 };
 
-export const analyzeScreenshot = async (base64Image: string): Promise<AnalysisResult> => {
-  if (!API_KEY) {
-    throw new Error("API Key is missing");
-  }
+export const geminiProvider: DetectionProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  analyze: async (
+    base64Image: string,
+    mimeType: string,
+    settings: ProviderSettings,
+    options: ProviderCallOptions = {}
+  ): Promise<AnalysisResult> => {
+    // Read at call time so headless callers can set the key after import
+    const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new AnalysisError('missing-key', "No Gemini API key is configured.");
+    }
 
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
+    const ai = new GoogleGenAI({ apiKey });
+    const emitPartial = createPartialParser(options.onPartial);
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          {
-            text: `Analyze this screenshot for privacy risks and PII (Personally Identifiable Information). 
-            Look for:
-            1. Small text, footers, and metadata.
-            2. Browser tabs that reveal interests or internal tools.
-            3. Usernames, real names, email addresses.
-            4. URL parameters containing session IDs or tokens.
-            5. Timestamps, locations, weather widgets.
-            6. QR codes or barcodes.
-            7. System tray icons or dock apps.
-            
-            For each risk, provide a bounding box [ymin, xmin, ymax, xmax] on a 0-1000 scale.
-            If a specific bounding box is hard to determine for a general risk (like 'metadata'), omit it or approximate the area.
-            Be thorough. It is better to flag potential risks than miss them.`
-          },
-          {
-            inlineData: {
-              mimeType: "image/jpeg", // Assuming JPEG for simplicity, though API handles others.
-              data: base64Image,
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: settings.geminiModel || "gemini-2.5-flash",
+        contents: {
+          parts: [
+            { text: buildAnalysisPrompt(settings.dictionary) },
+            {
+              inlineData: {
+                mimeType,
+                data: base64Image,
+              },
             },
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: analysisSchema,
-        temperature: 0.4, // Lower temperature for more analytical/deterministic results
-      },
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No response from Gemini");
-
-    const data = JSON.parse(text);
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: analysisSchema,
+          temperature: 0.4, // Lower temperature for more analytical/deterministic results
+          abortSignal: options.signal,
+        },
+      });
 
-    // Post-process to ensure IDs and consistent types
-    const risks = (data.risks || []).map((risk: any, index: number) => ({
-      id: `risk-${index}-${Date.now()}`,
-      type: risk.type,
-      description: risk.description,
-      riskLevel: risk.riskLevel as RiskLevel,
-      // Convert array [ymin, xmin, ymax, xmax] to object or null
-      box_2d: Array.isArray(risk.box_2d) && risk.box_2d.length === 4
-        ? {
-            ymin: risk.box_2d[0],
-            xmin: risk.box_2d[1],
-            ymax: risk.box_2d[2],
-            xmax: risk.box_2d[3],
-          }
-        : null,
-      isRedacted: risk.riskLevel === 'HIGH', // Auto-select high risks for redaction
-      isHidden: false,
-    }));
+      let text = '';
+      for await (const chunk of stream) {
+        checkSafety(chunk);
+        text += chunk.text ?? '';
+        emitPartial(text);
+      }
+      if (!text) throw new AnalysisError('malformed', "Gemini returned an empty response.");
 
-    return {
-      summary: data.summary || "Analysis complete.",
-      risks,
-    };
+      return parseAnalysisResponse(text);
 
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw new Error("Failed to analyze image. Please try again.");
-  }
-};
\ No newline at end of file
+    } catch (error) {
+      // A cancelled request is not a failure worth classifying or logging
+      if (options.signal?.aborted) throw options.signal.reason;
+      console.error("Gemini Analysis Error:", error);
+      throw toAnalysisError(error);
+    }
+  },
+};
@@ -0,0 +1,284 @@
+import { MetadataEntry, RiskItem, RiskLevel } from "../types";
+import { contentId, ensureUniqueIds } from "../utils/riskIds";
+
+type TagInfo = { name: string; riskLevel: RiskLevel };
+
+const IFD0_TAGS: Record<number, TagInfo> = {
+  0x010E: { name: 'Image Description', riskLevel: RiskLevel.MEDIUM },
+  0x010F: { name: 'Camera Make', riskLevel: RiskLevel.LOW },
+  0x0110: { name: 'Camera Model', riskLevel: RiskLevel.LOW },
+  0x0131: { name: 'Software', riskLevel: RiskLevel.LOW },
+  0x0132: { name: 'Date/Time', riskLevel: RiskLevel.LOW },
+  0x013B: { name: 'Artist', riskLevel: RiskLevel.MEDIUM },
+  0x013C: { name: 'Host Computer', riskLevel: RiskLevel.MEDIUM },
+  0x8298: { name: 'Copyright', riskLevel: RiskLevel.MEDIUM },
+};
+
+const EXIF_TAGS: Record<number, TagInfo> = {
+  0x9003: { name: 'Date Taken', riskLevel: RiskLevel.LOW },
+  0x9004: { name: 'Date Digitized', riskLevel: RiskLevel.LOW },
+  0x9286: { name: 'User Comment', riskLevel: RiskLevel.MEDIUM },
+  0xA420: { name: 'Image Unique ID', riskLevel: RiskLevel.MEDIUM },
+  0xA430: { name: 'Camera Owner', riskLevel: RiskLevel.HIGH },
+  0xA431: { name: 'Camera Serial Number', riskLevel: RiskLevel.MEDIUM },
+  0xA434: { name: 'Lens Model', riskLevel: RiskLevel.LOW },
+};
+
+const IPTC_DATASETS: Record<number, TagInfo> = {
+  25: { name: 'Keywords', riskLevel: RiskLevel.LOW },
+  80: { name: 'By-line (Author)', riskLevel: RiskLevel.MEDIUM },
+  90: { name: 'City', riskLevel: RiskLevel.MEDIUM },
+  95: { name: 'Province/State', riskLevel: RiskLevel.MEDIUM },
+  101: { name: 'Country', riskLevel: RiskLevel.LOW },
+  116: { name: 'Copyright Notice', riskLevel: RiskLevel.MEDIUM },
+  118: { name: 'Contact', riskLevel: RiskLevel.HIGH },
+  120: { name: 'Caption', riskLevel: RiskLevel.MEDIUM },
+};
+
+// XMP properties worth surfacing individually; the packet itself is always reported
+const XMP_PROPERTIES: Array<{ pattern: RegExp; name: string; riskLevel: RiskLevel }> = [
+  { pattern: /<dc:creator>[\s\S]*?<rdf:li[^>]*>([^<]+)</, name: 'Creator', riskLevel: RiskLevel.MEDIUM },
+  { pattern: /xmp:CreatorTool(?:="|>)([^"<]+)/, name: 'Creator Tool', riskLevel: RiskLevel.LOW },
+  { pattern: /exif:GPSLatitude(?:="|>)([^"<]+)/, name: 'GPS Latitude', riskLevel: RiskLevel.HIGH },
+  { pattern: /exif:GPSLongitude(?:="|>)([^"<]+)/, name: 'GPS Longitude', riskLevel: RiskLevel.HIGH },
+  { pattern: /photoshop:City(?:="|>)([^"<]+)/, name: 'City', riskLevel: RiskLevel.MEDIUM },
+];
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const cleanText = (value: string) => value.replace(/\0+$/, '').trim();
+
+// --- TIFF / EXIF ---
+
+const parseTiff = (bytes: Uint8Array, entries: MetadataEntry[]) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = startsWith(bytes, 0, 'II');
+  const u16 = (o: number) => view.getUint16(o, little);
+  const u32 = (o: number) => view.getUint32(o, little);
+  const typeSizes: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+  const readValue = (entry: number): string | number[] => {
+    const type = u16(entry + 2);
+    const count = u32(entry + 4);
+    const size = (typeSizes[type] ?? 1) * count;
+    const offset = size > 4 ? u32(entry + 8) : entry + 8;
+    if (offset + size > bytes.length) return '';
+    if (type === 2 || type === 7) return cleanText(latin1.decode(bytes.subarray(offset, offset + size)));
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      if (type === 3) values.push(u16(offset + i * 2));
+      else if (type === 4 || type === 9) values.push(u32(offset + i * 4));
+      else if (type === 5 || type === 10) values.push(u32(offset + i * 8) / (u32(offset + i * 8 + 4) || 1));
+      else values.push(bytes[offset + i]);
+    }
+    return values;
+  };
+
+  const readIfd = (offset: number) => {
+    const tags = new Map<number, string | number[]>();
+    if (offset + 2 > bytes.length) return tags;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > bytes.length) break;
+      tags.set(u16(entry), readValue(entry));
+    }
+    return tags;
+  };
+
+  const report = (tags: Map<number, string | number[]>, known: Record<number, TagInfo>, segment: MetadataEntry['segment']) => {
+    tags.forEach((value, tag) => {
+      const info = known[tag];
+      if (!info) return;
+      const text = typeof value === 'string' ? value : value.join(', ');
+      if (text) entries.push({ segment, key: info.name, value: text, riskLevel: info.riskLevel });
+    });
+  };
+
+  const ifd0 = readIfd(u32(4));
+  report(ifd0, IFD0_TAGS, 'EXIF');
+
+  const exifPointer = ifd0.get(0x8769);
+  if (Array.isArray(exifPointer)) report(readIfd(exifPointer[0]), EXIF_TAGS, 'EXIF');
+
+  const gpsPointer = ifd0.get(0x8825);
+  if (Array.isArray(gpsPointer)) {
+    const gps = readIfd(gpsPointer[0]);
+    const toDegrees = (v: string | number[] | undefined) =>
+      Array.isArray(v) && v.length === 3 ? v[0] + v[1] / 60 + v[2] / 3600 : null;
+    const lat = toDegrees(gps.get(2));
+    const lon = toDegrees(gps.get(4));
+    if (lat !== null && lon !== null) {
+      const signedLat = gps.get(1) === 'S' ? -lat : lat;
+      const signedLon = gps.get(3) === 'W' ? -lon : lon;
+      entries.push({ segment: 'GPS', key: 'Location', value: `${signedLat.toFixed(5)}, ${signedLon.toFixed(5)}`, riskLevel: RiskLevel.HIGH });
+    } else if (gps.size > 0) {
+      entries.push({ segment: 'GPS', key: 'GPS Data', value: `${gps.size} GPS tag(s)`, riskLevel: RiskLevel.HIGH });
+    }
+  }
+};
+
+// --- XMP / IPTC ---
+
+const parseXmp = (xml: string, entries: MetadataEntry[]) => {
+  entries.push({ segment: 'XMP', key: 'XMP Packet', value: `${xml.length} bytes`, riskLevel: RiskLevel.LOW });
+  XMP_PROPERTIES.forEach(({ pattern, name, riskLevel }) => {
+    const match = xml.match(pattern);
+    if (match) entries.push({ segment: 'XMP', key: name, value: match[1].trim(), riskLevel });
+  });
+};
+
+// Photoshop image resource block (APP13) wrapping IPTC-IIM records
+const parsePhotoshop = (bytes: Uint8Array, entries: MetadataEntry[]) => {
+  let offset = 0;
+  while (offset + 12 <= bytes.length && startsWith(bytes, offset, '8BIM')) {
+    const id = (bytes[offset + 4] << 8) | bytes[offset + 5];
+    const nameLength = bytes[offset + 6];
+    let cursor = offset + 6 + 1 + nameLength;
+    if (cursor % 2 === 1) cursor++; // Pascal string is padded to even length
+    const size = new DataView(bytes.buffer, bytes.byteOffset + cursor, 4).getUint32(0);
+    cursor += 4;
+    if (id === 0x0404) parseIptc(bytes.subarray(cursor, cursor + size), entries);
+    offset = cursor + size + (size % 2);
+  }
+};
+
+const parseIptc = (bytes: Uint8Array, entries: MetadataEntry[]) => {
+  let offset = 0;
+  while (offset + 5 <= bytes.length && bytes[offset] === 0x1C) {
+    const record = bytes[offset + 1];
+    const dataset = bytes[offset + 2];
+    const size = (bytes[offset + 3] << 8) | bytes[offset + 4];
+    const value = utf8.decode(bytes.subarray(offset + 5, offset + 5 + size));
+    const info = record === 2 ? IPTC_DATASETS[dataset] : undefined;
+    if (info && value) entries.push({ segment: 'IPTC', key: info.name, value, riskLevel: info.riskLevel });
+    offset += 5 + size;
+  }
+};
+
+// --- Containers ---
+
+const parseJpeg = (bytes: Uint8Array, entries: MetadataEntry[]) => {
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xDA || marker === 0xD9) break; // Start of scan / end of image
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const data = bytes.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xE1 && startsWith(data, 0, 'Exif\0\0')) {
+      parseTiff(data.subarray(6), entries);
+    } else if (marker === 0xE1 && startsWith(data, 0, 'http://ns.adobe.com/xap/1.0/\0')) {
+      parseXmp(utf8.decode(data.subarray(29)), entries);
+    } else if (marker === 0xED && startsWith(data, 0, 'Photoshop 3.0\0')) {
+      parsePhotoshop(data.subarray(14), entries);
+    } else if (marker === 0xE2 && startsWith(data, 0, 'ICC_PROFILE\0')) {
+      entries.push({ segment: 'ICC', key: 'Colour Profile', value: `${length} bytes`, riskLevel: RiskLevel.SAFE });
+    } else if (marker === 0xFE) {
+      const comment = cleanText(latin1.decode(data));
+      if (comment) entries.push({ segment: 'Comment', key: 'JPEG Comment', value: comment, riskLevel: RiskLevel.MEDIUM });
+    }
+    offset += 2 + length;
+  }
+};
+
+const parsePng = (bytes: Uint8Array, entries: MetadataEntry[]) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'tEXt' || type === 'iTXt' || type === 'zTXt') {
+      const separator = data.indexOf(0);
+      const keyword = latin1.decode(data.subarray(0, separator));
+      let value: string;
+      if (type === 'tEXt') {
+        value = latin1.decode(data.subarray(separator + 1));
+      } else if (type === 'zTXt' || data[separator + 1] === 1) {
+        value = '(compressed text)';
+      } else {
+        // iTXt: keyword, flag, method, language tag, translated keyword, text
+        const langEnd = data.indexOf(0, separator + 3);
+        const translatedEnd = data.indexOf(0, langEnd + 1);
+        value = utf8.decode(data.subarray(translatedEnd + 1));
+      }
+      if (keyword === 'XML:com.adobe.xmp') {
+        parseXmp(value, entries);
+      } else {
+        const sensitive = /author|comment|description|source|copyright|title/i.test(keyword);
+        entries.push({ segment: 'PNG Text', key: keyword, value: cleanText(value), riskLevel: sensitive ? RiskLevel.MEDIUM : RiskLevel.LOW });
+      }
+    } else if (type === 'eXIf') {
+      parseTiff(data, entries);
+    } else if (type === 'tIME') {
+      entries.push({ segment: 'PNG Text', key: 'Modification Time', value: `${view.getUint16(offset + 8)}-${data[2]}-${data[3]}`, riskLevel: RiskLevel.LOW });
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+};
+
+const parseWebp = (bytes: Uint8Array, entries: MetadataEntry[]) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = latin1.decode(bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'EXIF') parseTiff(startsWith(data, 0, 'Exif\0\0') ? data.subarray(6) : data, entries);
+    else if (type === 'XMP ') parseXmp(utf8.decode(data), entries);
+    offset += 8 + length + (length % 2);
+  }
+};
+
+/**
+ * Reads EXIF, GPS, XMP, IPTC, comments and PNG text chunks from the original
+ * file bytes. Malformed segments are skipped rather than failing the scan.
+ */
+export const inspectMetadata = (bytes: Uint8Array): MetadataEntry[] => {
+  const entries: MetadataEntry[] = [];
+  try {
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) parseJpeg(bytes, entries);
+    else if (startsWith(bytes, 0, '\x89PNG')) parsePng(bytes, entries);
+    else if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) parseWebp(bytes, entries);
+  } catch (error) {
+    console.warn("Metadata parsing stopped early:", error);
+  }
+  return entries;
+};
+
+export const base64ToBytes = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/**
+ * Turns metadata entries into box-less risks. They are always stripped on
+ * export (the image is re-encoded from canvas pixels), so they start redacted.
+ */
+export const metadataToRisks = (entries: MetadataEntry[]): RiskItem[] =>
+  ensureUniqueIds(entries
+    .filter(entry => entry.riskLevel !== RiskLevel.SAFE)
+    .map(entry => ({
+      id: contentId('meta', entry.segment, entry.key),
+      type: `${entry.segment}: ${entry.key}`,
+      description: entry.value,
+      riskLevel: entry.riskLevel,
+      box_2d: null,
+      isRedacted: true,
+      isHidden: false,
+      source: 'metadata',
+    })));
@@ -0,0 +1,62 @@
+import { createWorker, Worker } from "tesseract.js";
+import { BoundingBox, OcrLine, OcrResult } from "../types";
+
+let workerPromise: Promise<Worker> | null = null;
+
+// The worker downloads its language data on first use, so keep one around for the session
+const getWorker = () => {
+  if (!workerPromise) {
+    // tesseract.js throws worker failures as uncaught errors unless given an
+    // errorHandler, and never settles createWorker when the language data
+    // cannot be downloaded, so reject from the handler instead
+    workerPromise = new Promise<Worker>((resolve, reject) => {
+      createWorker("eng", undefined, {
+        errorHandler: err => reject(new Error(`On-device OCR failed to start: ${err instanceof Error ? err.message : String(err)}`)),
+      }).then(resolve, reject);
+    }).catch(err => {
+      workerPromise = null;
+      throw err;
+    });
+  }
+  return workerPromise;
+};
+
+export const terminateOcr = async () => {
+  if (!workerPromise) return;
+  const pending = workerPromise;
+  workerPromise = null;
+  await (await pending.catch(() => null))?.terminate();
+};
+
+/**
+ * Runs on-device OCR and returns word and line boxes normalized to the same
+ * 0-1000 space the providers use for box_2d. Works in the browser and in Node.
+ */
+export const recognizeText = async (imageUrl: string, width: number, height: number): Promise<OcrResult> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(imageUrl);
+
+  const normalize = (bbox: { x0: number; y0: number; x1: number; y1: number }): BoundingBox => ({
+    ymin: (bbox.y0 / height) * 1000,
+    xmin: (bbox.x0 / width) * 1000,
+    ymax: (bbox.y1 / height) * 1000,
+    xmax: (bbox.x1 / width) * 1000,
+  });
+
+  const lines: OcrLine[] = data.lines.map(line => ({
+    text: line.text.trim(),
+    box: normalize(line.bbox),
+    words: line.words.map(word => ({
+      text: word.text,
+      box: normalize(word.bbox),
+      confidence: word.confidence,
+    })),
+  }));
+
+  return {
+    width,
+    height,
+    lines,
+    words: lines.flatMap(line => line.words),
+  };
+};
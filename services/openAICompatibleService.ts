@@ -0,0 +1,130 @@
+import { AnalysisResult, DetectionProvider, ProviderCallOptions, ProviderSettings } from "../types";
+import { ANALYSIS_JSON_SHAPE, buildAnalysisPrompt, createPartialParser, parseAnalysisResponse } from "./analysisPrompt";
+import { AnalysisError, errorForStatus, isNetworkFailure } from "./analysisErrors";
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const checkFinish = (choice: any) => {
+  if (choice?.finish_reason === 'content_filter') {
+    throw new AnalysisError('safety', "The provider's content filter blocked the request.");
+  }
+};
+
+/** Reads a server-sent event stream of chat completion chunks, reporting the text so far after each. */
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void) => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    // Keep a trailing partial line for the next read
+    buffer = done ? '' : lines.pop()!;
+
+    for (const line of lines) {
+      const payload = line.trim();
+      if (!payload.startsWith('data:')) continue;
+      const data = payload.slice(5).trim();
+      if (data === '[DONE]') return text;
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch (error) {
+        throw new AnalysisError('malformed', "The provider sent an unreadable stream event.", { cause: error });
+      }
+      const choice = chunk.choices?.[0];
+      checkFinish(choice);
+      text += choice?.delta?.content ?? '';
+      onText(text);
+    }
+    if (done) return text;
+  }
+};
+
+// Works with any server exposing the OpenAI chat completions API with vision input,
+// e.g. Ollama (`/v1`), vLLM, LM Studio or a local stand-in used for testing.
+export const openAICompatibleProvider: DetectionProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible / Ollama',
+  analyze: async (
+    base64Image: string,
+    mimeType: string,
+    settings: ProviderSettings,
+    options: ProviderCallOptions = {}
+  ): Promise<AnalysisResult> => {
+    if (!settings.httpBaseUrl) {
+      throw new AnalysisError('network', "No provider URL is configured.", { retryable: false });
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.httpApiKey) {
+      headers["Authorization"] = `Bearer ${settings.httpApiKey}`;
+    }
+
+    const emitPartial = createPartialParser(options.onPartial);
+
+    try {
+      const response = await fetch(`${settings.httpBaseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: "POST",
+        headers,
+        signal: options.signal,
+        body: JSON.stringify({
+          model: settings.httpModel,
+          temperature: 0.4,
+          stream: true,
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: `${buildAnalysisPrompt(settings.dictionary)}\n\n${ANALYSIS_JSON_SHAPE}` },
+                { type: "image_url", image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw errorForStatus(response.status, `The provider responded with ${response.status}.`, {
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        });
+      }
+
+      let text: string | undefined;
+      if (response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        text = await readEventStream(response.body, emitPartial);
+      } else {
+        // Some servers ignore `stream` and answer with a single completion
+        const data = await response.json().catch(error => {
+          throw new AnalysisError('malformed', "The provider response was not JSON.", { cause: error });
+        });
+        checkFinish(data.choices?.[0]);
+        text = data.choices?.[0]?.message?.content;
+      }
+      if (!text) throw new AnalysisError('malformed', "The provider returned an empty response.");
+
+      return parseAnalysisResponse(text);
+
+    } catch (error) {
+      // A cancelled request is not a failure worth classifying or logging
+      if (options.signal?.aborted) throw options.signal.reason;
+      console.error("Provider Analysis Error:", error);
+      if (error instanceof AnalysisError) throw error;
+      throw isNetworkFailure(error)
+        ? new AnalysisError('network', "Could not reach the provider.", { cause: error })
+        : new AnalysisError('provider', "The provider failed to analyze the image.", { cause: error });
+    }
+  },
+};
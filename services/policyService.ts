@@ -0,0 +1,135 @@
+import { PolicyAction, PolicyRule, RedactionPolicy, RiskItem, RiskLevel, RiskSource } from "../types";
+import { FACE_TYPE_PATTERN } from "./analysisPrompt";
+import { REDACTION_SHAPES, REDACTION_STYLES } from "../utils/redaction";
+
+export const POLICY_ACTIONS: PolicyAction[] = ['redact', 'flag', 'ignore'];
+const RISK_LEVELS = Object.values(RiskLevel);
+export const RISK_SOURCES: RiskSource[] = ['ai', 'rules', 'dictionary', 'metadata'];
+
+export const DEFAULT_FACE_RULE: PolicyRule = {
+  id: 'default-faces',
+  riskLevels: [],
+  sources: [],
+  typePattern: FACE_TYPE_PATTERN,
+  action: 'redact',
+  redactionStyle: 'blur',
+  shape: 'ellipse',
+};
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  name: 'Default',
+  rules: [
+    DEFAULT_FACE_RULE,
+    { id: 'default-high', riskLevels: [RiskLevel.HIGH], sources: [], typePattern: '', action: 'redact' },
+  ],
+  defaultAction: 'flag',
+  keepOwnAvatar: false,
+};
+
+export const createPolicyRule = (): PolicyRule => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  riskLevels: [],
+  sources: [],
+  typePattern: '',
+  action: 'redact',
+});
+
+const typeMatches = (pattern: string, type: string) => {
+  if (!pattern) return true;
+  try {
+    return new RegExp(pattern, 'i').test(type);
+  } catch {
+    // A half-typed pattern in the editor should not match everything
+    return false;
+  }
+};
+
+export const findPolicyRule = (risk: RiskItem, policy: RedactionPolicy): PolicyRule | undefined =>
+  policy.rules.find(rule =>
+    (rule.riskLevels.length === 0 || rule.riskLevels.includes(risk.riskLevel))
+    && (rule.sources.length === 0 || (!!risk.source && rule.sources.includes(risk.source)))
+    && typeMatches(rule.typePattern, risk.type)
+  );
+
+/**
+ * Sets the initial redacted/hidden state, label and style of fresh findings.
+ * Metadata is stripped on export whatever the action, so only "ignore" changes it.
+ */
+export const applyRedactionPolicy = (risks: RiskItem[], policy: RedactionPolicy): RiskItem[] =>
+  risks.map(risk => {
+    const rule = findPolicyRule(risk, policy);
+    // The user's own avatar stays visible but flagged, so it is still reviewed
+    const action = risk.isSelf && policy.keepOwnAvatar ? 'flag' : rule?.action ?? policy.defaultAction;
+    return {
+      ...risk,
+      isRedacted: risk.source === 'metadata' ? true : action === 'redact',
+      isHidden: action === 'ignore',
+      customText: rule?.label || risk.customText,
+      redactionStyle: rule?.redactionStyle ?? risk.redactionStyle,
+      redactionColor: rule?.redactionColor ?? risk.redactionColor,
+      shape: rule?.shape ?? risk.shape,
+    };
+  });
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid redaction policy: ${message}`);
+};
+
+const parseRule = (raw: any, index: number): PolicyRule => {
+  if (!raw || typeof raw !== 'object') fail(`rule ${index + 1} is not an object`);
+  const riskLevels = raw.riskLevels ?? [];
+  const sources = raw.sources ?? [];
+  if (!Array.isArray(riskLevels) || riskLevels.some((l: any) => !RISK_LEVELS.includes(l))) {
+    fail(`rule ${index + 1} has unknown risk levels`);
+  }
+  if (!Array.isArray(sources) || sources.some((s: any) => !RISK_SOURCES.includes(s))) {
+    fail(`rule ${index + 1} has unknown sources`);
+  }
+  if (!POLICY_ACTIONS.includes(raw.action)) fail(`rule ${index + 1} has an unknown action`);
+  if (raw.redactionStyle !== undefined && !REDACTION_STYLES.some(style => style.value === raw.redactionStyle)) {
+    fail(`rule ${index + 1} has an unknown redaction style`);
+  }
+  if (raw.shape !== undefined && !REDACTION_SHAPES.some(shape => shape.value === raw.shape)) {
+    fail(`rule ${index + 1} has an unknown shape`);
+  }
+  const typePattern = typeof raw.typePattern === 'string' ? raw.typePattern : '';
+  try {
+    new RegExp(typePattern, 'i');
+  } catch {
+    fail(`rule ${index + 1} has an invalid type pattern`);
+  }
+
+  return {
+    id: typeof raw.id === 'string' ? raw.id : createPolicyRule().id,
+    riskLevels,
+    sources,
+    typePattern,
+    action: raw.action,
+    ...(typeof raw.label === 'string' && raw.label ? { label: raw.label } : {}),
+    ...(raw.redactionStyle ? { redactionStyle: raw.redactionStyle } : {}),
+    ...(typeof raw.redactionColor === 'string' ? { redactionColor: raw.redactionColor } : {}),
+    ...(raw.shape ? { shape: raw.shape } : {}),
+  };
+};
+
+/** Validates imported policy JSON. Throws with a readable message on bad input. */
+export const parseRedactionPolicy = (text: string): RedactionPolicy => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return fail('not valid JSON');
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.rules)) fail('expected an object with a "rules" array');
+  const defaultAction = data.defaultAction ?? DEFAULT_REDACTION_POLICY.defaultAction;
+  if (!POLICY_ACTIONS.includes(defaultAction)) fail('unknown default action');
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : 'Imported',
+    rules: data.rules.map(parseRule),
+    defaultAction,
+    keepOwnAvatar: data.keepOwnAvatar === true,
+  };
+};
+
+export const serializeRedactionPolicy = (policy: RedactionPolicy) => JSON.stringify(policy, null, 2);
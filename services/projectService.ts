@@ -0,0 +1,136 @@
+import { AnalysisResult, BoundingBox, ImageFilters, Point, ProjectFile, RedactionPolicy, RiskItem, RiskLevel } from "../types";
+import { DEFAULT_FILTERS } from "../utils/canvasUtils";
+import { idbDelete, idbGet, idbPut } from "../utils/indexedDb";
+import { REDACTION_STYLES } from "../utils/redaction";
+import { parseRedactionPolicy, RISK_SOURCES, serializeRedactionPolicy } from "./policyService";
+
+const AUTOSAVE_KEY = 'autosave';
+const RISK_LEVELS = Object.values(RiskLevel);
+const SHAPES = ['rectangle', 'ellipse', 'polygon'];
+export const PROJECT_EXTENSION = '.privacyguard.json';
+
+interface ProjectInput {
+  fileName: string;
+  mimeType: string;
+  imageBase64: string;
+  analysisResult: AnalysisResult;
+  filters: ImageFilters;
+  policy: RedactionPolicy;
+}
+
+export const createProject = (input: ProjectInput): ProjectFile => ({
+  version: 1,
+  savedAt: new Date().toISOString(),
+  ...input,
+});
+
+export const projectFileName = (project: ProjectFile) =>
+  `${project.fileName.replace(/\.[^./]+$/, '')}${PROJECT_EXTENSION}`;
+
+export const serializeProject = (project: ProjectFile) => JSON.stringify(project);
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid project file: ${message}`);
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBox = (value: any): value is BoundingBox =>
+  !!value && typeof value === 'object' && [value.xmin, value.ymin, value.xmax, value.ymax].every(isNumber);
+
+const isPoint = (value: any): value is Point => !!value && typeof value === 'object' && isNumber(value.x) && isNumber(value.y);
+
+// Rendering and geometry assume these fields are well-formed, so a hand-edited file must not slip past
+const parseRisk = (raw: any, label: string): RiskItem => {
+  if (!raw || typeof raw !== 'object') fail(`${label} is not an object`);
+  if (typeof raw.id !== 'string' || !raw.id) fail(`${label} has no id`);
+  if (typeof raw.type !== 'string') fail(`${label} has no type`);
+  if (!RISK_LEVELS.includes(raw.riskLevel)) fail(`${label} has an unknown risk level`);
+  if (raw.box_2d != null && !isBox(raw.box_2d)) fail(`${label} has an invalid box`);
+  if (raw.originalBox != null && !isBox(raw.originalBox)) fail(`${label} has an invalid original box`);
+  if (raw.points !== undefined && (!Array.isArray(raw.points) || raw.points.length < 3 || !raw.points.every(isPoint))) {
+    fail(`${label} has invalid polygon points`);
+  }
+  if (raw.shape !== undefined && !SHAPES.includes(raw.shape)) fail(`${label} has an unknown shape`);
+  if (raw.shape === 'polygon' && (!raw.points || !raw.box_2d)) fail(`${label} is a polygon without points`);
+  if (raw.redactionStyle !== undefined && !REDACTION_STYLES.some(style => style.value === raw.redactionStyle)) {
+    fail(`${label} has an unknown redaction style`);
+  }
+  if (raw.source !== undefined && !RISK_SOURCES.includes(raw.source)) fail(`${label} has an unknown source`);
+
+  return {
+    id: raw.id,
+    type: raw.type,
+    description: typeof raw.description === 'string' ? raw.description : '',
+    riskLevel: raw.riskLevel,
+    box_2d: raw.box_2d ?? null,
+    ...(raw.originalBox ? { originalBox: raw.originalBox } : {}),
+    ...(raw.isHidden === true ? { isHidden: true } : {}),
+    ...(raw.isRedacted === true ? { isRedacted: true } : {}),
+    ...(typeof raw.customText === 'string' ? { customText: raw.customText } : {}),
+    ...(raw.redactionStyle ? { redactionStyle: raw.redactionStyle } : {}),
+    ...(typeof raw.redactionColor === 'string' ? { redactionColor: raw.redactionColor } : {}),
+    ...(raw.shape ? { shape: raw.shape } : {}),
+    ...(raw.points ? { points: raw.points.map((p: Point) => ({ x: p.x, y: p.y })) } : {}),
+    ...(raw.source ? { source: raw.source } : {}),
+    ...(raw.isManual === true ? { isManual: true } : {}),
+    ...(raw.isSelf === true ? { isSelf: true } : {}),
+  };
+};
+
+const parseFilters = (raw: any): ImageFilters => {
+  if (raw !== undefined && (!raw || typeof raw !== 'object')) fail('invalid image adjustments');
+  const filters = { ...DEFAULT_FILTERS };
+  (Object.keys(DEFAULT_FILTERS) as Array<keyof ImageFilters>).forEach(key => {
+    if (raw?.[key] === undefined) return;
+    if (!isNumber(raw[key])) fail(`image adjustment "${key}" is not a number`);
+    filters[key] = raw[key];
+  });
+  return filters;
+};
+
+/** Validates an imported project. Throws with a readable message on bad input. */
+export const parseProject = (text: string): ProjectFile => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return fail('not valid JSON');
+  }
+  if (!data || typeof data !== 'object') fail('expected an object');
+  if (data.version !== 1) fail(`unsupported version ${data.version}`);
+  if (typeof data.imageBase64 !== 'string' || !data.imageBase64) fail('missing image');
+  if (typeof data.mimeType !== 'string' || !data.mimeType.startsWith('image/')) fail('missing image type');
+  if (!data.analysisResult || !Array.isArray(data.analysisResult.risks)) fail('missing findings');
+  if (data.analysisResult.deletedRisks !== undefined && !Array.isArray(data.analysisResult.deletedRisks)) fail('invalid deleted findings');
+  if (!data.policy || typeof data.policy !== 'object') fail('missing policy');
+
+  return {
+    version: 1,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    fileName: typeof data.fileName === 'string' ? data.fileName : 'project.png',
+    mimeType: data.mimeType,
+    imageBase64: data.imageBase64,
+    analysisResult: {
+      summary: typeof data.analysisResult.summary === 'string' ? data.analysisResult.summary : '',
+      risks: data.analysisResult.risks.map((risk: any, i: number) => parseRisk(risk, `finding ${i + 1}`)),
+      deletedRisks: (data.analysisResult.deletedRisks ?? []).map((risk: any, i: number) => parseRisk(risk, `deleted finding ${i + 1}`)),
+    },
+    filters: parseFilters(data.filters),
+    // Re-validate the embedded policy the same way a policy import would
+    policy: parseRedactionPolicy(serializeRedactionPolicy(data.policy)),
+  };
+};
+
+export const saveAutosave = (project: ProjectFile) => idbPut('projects', AUTOSAVE_KEY, project);
+
+/** Resolves to null when nothing was saved or IndexedDB is unavailable. */
+export const loadAutosave = async (): Promise<ProjectFile | null> => {
+  try {
+    return (await idbGet<ProjectFile>('projects', AUTOSAVE_KEY)) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearAutosave = () => idbDelete('projects', AUTOSAVE_KEY);
@@ -0,0 +1,186 @@
+import { AnalysisResult, AuditFinding, AuditReport, AuditReportFormat, RiskDecision, RiskItem, RiskLevel } from "../types";
+import { sha256Hex } from "../utils/hash";
+import { base64ToBytes } from "./metadataService";
+
+const TOOL_NAME = 'PrivacyGuard';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+interface ReportInput {
+  fileName: string;
+  exportFileName: string;
+  analysisResult: AnalysisResult;
+  policyName: string;
+  originalBase64: string;
+  exportedDataUrl: string;
+  thumbnails: Record<string, string>; // Keyed by risk ID
+}
+
+const decisionFor = (risk: RiskItem): RiskDecision => {
+  // Metadata is never written by the encoder, whatever the toggle says
+  if (risk.source === 'metadata') return 'stripped';
+  if (risk.isHidden) return 'ignored';
+  return risk.isRedacted && risk.box_2d ? 'redacted' : 'flagged';
+};
+
+const toFinding = (risk: RiskItem, decision: RiskDecision, thumbnails: Record<string, string>): AuditFinding => ({
+  id: risk.id,
+  type: risk.type,
+  description: risk.description,
+  riskLevel: risk.riskLevel,
+  source: risk.isManual ? 'manual' : risk.source ?? 'ai',
+  decision,
+  label: risk.isRedacted && risk.customText ? risk.customText : null,
+  redactionStyle: risk.isRedacted ? risk.redactionStyle ?? 'solid' : null,
+  box: risk.box_2d ?? null,
+  thumbnail: thumbnails[risk.id] ?? null,
+});
+
+export const buildAuditReport = async (input: ReportInput): Promise<AuditReport> => {
+  const { analysisResult, thumbnails } = input;
+  const [originalSha256, exportedSha256] = await Promise.all([
+    sha256Hex(base64ToBytes(input.originalBase64)),
+    sha256Hex(base64ToBytes(input.exportedDataUrl.split(',')[1])),
+  ]);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    fileName: input.fileName,
+    exportFileName: input.exportFileName,
+    summary: analysisResult.summary,
+    policyName: input.policyName,
+    originalSha256,
+    exportedSha256,
+    findings: [
+      ...analysisResult.risks.map(risk => toFinding(risk, decisionFor(risk), thumbnails)),
+      // Deleted boxes are gone from the export, so there is nothing to crop
+      ...(analysisResult.deletedRisks ?? []).map(risk => toFinding(risk, 'deleted', {})),
+    ],
+  };
+};
+
+// --- SARIF ---
+
+const SARIF_LEVELS: Record<RiskLevel, string> = {
+  [RiskLevel.HIGH]: 'error',
+  [RiskLevel.MEDIUM]: 'warning',
+  [RiskLevel.LOW]: 'note',
+  [RiskLevel.SAFE]: 'note',
+};
+
+const ruleId = (type: string) => type.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'finding';
+
+const toSarif = (report: AuditReport) => {
+  const rules = [...new Map(report.findings.map(f => [ruleId(f.type), f.type])).entries()]
+    .map(([id, name]) => ({ id, name, shortDescription: { text: name } }));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules } },
+      invocations: [{ executionSuccessful: true, endTimeUtc: report.generatedAt }],
+      artifacts: [
+        { location: { uri: report.fileName }, hashes: { 'sha-256': report.originalSha256 } },
+        { location: { uri: report.exportFileName }, hashes: { 'sha-256': report.exportedSha256 } },
+      ],
+      properties: { summary: report.summary, policy: report.policyName },
+      results: report.findings.map(finding => {
+        // Redacted/stripped findings are resolved; anything else is still visible in the export
+        const resolved = finding.decision === 'redacted' || finding.decision === 'stripped';
+        const suppressed = finding.decision === 'ignored' || finding.decision === 'deleted';
+        return {
+          ruleId: ruleId(finding.type),
+          kind: resolved ? 'pass' : 'fail',
+          level: resolved ? 'none' : SARIF_LEVELS[finding.riskLevel],
+          message: { text: finding.description || finding.type },
+          locations: [{ physicalLocation: { artifactLocation: { uri: report.fileName, index: 0 } } }],
+          ...(suppressed ? { suppressions: [{ kind: 'external', justification: `Marked ${finding.decision} by the reviewer` }] } : {}),
+          properties: {
+            riskLevel: finding.riskLevel,
+            decision: finding.decision,
+            source: finding.source,
+            label: finding.label,
+            redactionStyle: finding.redactionStyle,
+            box: finding.box,
+          },
+        };
+      }),
+    }],
+  };
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const formatBox = (finding: AuditFinding) =>
+  finding.box ? `${Math.round(finding.box.xmin)}, ${Math.round(finding.box.ymin)} – ${Math.round(finding.box.xmax)}, ${Math.round(finding.box.ymax)}` : '—';
+
+const toHtml = (report: AuditReport) => {
+  const counts = report.findings.reduce<Record<string, number>>((acc, f) => ({ ...acc, [f.decision]: (acc[f.decision] ?? 0) + 1 }), {});
+  const rows = report.findings.map(f => `
+      <tr>
+        <td>${f.thumbnail ? `<img src="${f.thumbnail}" alt="">` : ''}</td>
+        <td><strong>${escapeHtml(f.type)}</strong><br><span class="muted">${escapeHtml(f.description)}</span></td>
+        <td><span class="level ${f.riskLevel.toLowerCase()}">${f.riskLevel}</span></td>
+        <td>${escapeHtml(f.decision)}${f.label ? `<br><span class="muted">“${escapeHtml(f.label)}”</span>` : ''}</td>
+        <td>${escapeHtml(f.source)}</td>
+        <td class="mono">${formatBox(f)}</td>
+      </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${TOOL_NAME} audit – ${escapeHtml(report.fileName)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #111827; margin: 2rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 0.5rem; text-align: left; vertical-align: top; }
+  th { font-size: 12px; text-transform: uppercase; color: #6b7280; }
+  img { max-width: 160px; max-height: 160px; border: 1px solid #e5e7eb; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+  dt { color: #6b7280; }
+  .mono { font-family: ui-monospace, monospace; word-break: break-all; }
+  .muted { color: #6b7280; }
+  .level { font-size: 11px; font-weight: 600; padding: 0 0.4rem; border-radius: 4px; background: #e5e7eb; }
+  .level.high { background: #fee2e2; color: #991b1b; }
+  .level.medium { background: #fef3c7; color: #92400e; }
+</style>
+</head>
+<body>
+<h1>${TOOL_NAME} audit report</h1>
+<dl>
+  <dt>Original</dt><dd>${escapeHtml(report.fileName)}</dd>
+  <dt>SHA-256</dt><dd class="mono">${report.originalSha256}</dd>
+  <dt>Exported</dt><dd>${escapeHtml(report.exportFileName)}</dd>
+  <dt>SHA-256</dt><dd class="mono">${report.exportedSha256}</dd>
+  <dt>Policy</dt><dd>${escapeHtml(report.policyName)}</dd>
+  <dt>Generated</dt><dd>${escapeHtml(report.generatedAt)}</dd>
+  <dt>Decisions</dt><dd>${Object.entries(counts).map(([decision, n]) => `${n} ${decision}`).join(', ') || 'none'}</dd>
+</dl>
+<p>${escapeHtml(report.summary)}</p>
+<table>
+  <thead><tr><th>Export</th><th>Finding</th><th>Risk</th><th>Decision</th><th>Source</th><th>Box (0–1000)</th></tr></thead>
+  <tbody>${rows}
+  </tbody>
+</table>
+</body>
+</html>
+`;
+};
+
+export const AUDIT_FORMATS: Array<{ value: AuditReportFormat; label: string; extension: string; mimeType: string }> = [
+  { value: 'json', label: 'JSON', extension: 'audit.json', mimeType: 'application/json' },
+  { value: 'sarif', label: 'SARIF', extension: 'sarif', mimeType: 'application/sarif+json' },
+  { value: 'html', label: 'HTML', extension: 'audit.html', mimeType: 'text/html' },
+];
+
+export const formatAuditReport = (report: AuditReport, format: AuditReportFormat): string => {
+  switch (format) {
+    case 'sarif': return JSON.stringify(toSarif(report), null, 2);
+    case 'html': return toHtml(report);
+    default: return JSON.stringify(report, null, 2);
+  }
+};
@@ -0,0 +1,194 @@
+import { BoundingBox, OcrLine, OcrResult, RiskItem, RiskLevel } from "../types";
+import { unionBox } from "../utils/geometry";
+import { contentId, ensureUniqueIds } from "../utils/riskIds";
+
+interface DetectionRule {
+  type: string;
+  description: string;
+  riskLevel: RiskLevel;
+  pattern: RegExp; // Must be global
+  validate?: (match: string) => boolean;
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+// Luhn checksum used by payment card numbers
+export const isValidLuhn = (value: string) => {
+  const digits = digitsOnly(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// ISO 13616 mod-97 check
+export const isValidIban = (value: string) => {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+const isValidIpv4 = (value: string) => value.split('.').every(part => Number(part) <= 255);
+
+export const RULES: DetectionRule[] = [
+  {
+    type: 'Email',
+    description: 'Email address',
+    riskLevel: RiskLevel.HIGH,
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  {
+    type: 'Credit Card',
+    description: 'Payment card number (passes Luhn check)',
+    riskLevel: RiskLevel.HIGH,
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: isValidLuhn,
+  },
+  {
+    type: 'IBAN',
+    description: 'International bank account number',
+    riskLevel: RiskLevel.HIGH,
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    validate: isValidIban,
+  },
+  {
+    type: 'SSN',
+    description: 'US social security number',
+    riskLevel: RiskLevel.HIGH,
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  },
+  {
+    type: 'API Key',
+    description: 'Cloud access key or token',
+    riskLevel: RiskLevel.HIGH,
+    pattern: /\b(?:AKIA[0-9A-Z]{16}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[0-9A-Za-z]{36}|sk-[0-9A-Za-z_-]{20,}|xox[abpr]-[0-9A-Za-z-]{10,})\b/g,
+  },
+  {
+    type: 'Token',
+    description: 'JSON Web Token',
+    riskLevel: RiskLevel.HIGH,
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g,
+  },
+  {
+    type: 'URL Token',
+    description: 'URL parameter carrying a session ID or token',
+    riskLevel: RiskLevel.HIGH,
+    pattern: /[?&](?:token|session|sessionid|sid|auth|key|api_key|access_token|code)=[^\s&]+/gi,
+  },
+  {
+    type: 'Phone Number',
+    description: 'Phone number',
+    riskLevel: RiskLevel.MEDIUM,
+    pattern: /(?:\+\d{1,3}[ .-]?)?\(?\d{2,4}\)?[ .-]?\d{3,4}[ .-]?\d{3,4}\b/g,
+    validate: (match) => {
+      const length = digitsOnly(match).length;
+      return length >= 9 && length <= 15;
+    },
+  },
+  {
+    type: 'IP Address',
+    description: 'IPv4 address',
+    riskLevel: RiskLevel.MEDIUM,
+    pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+    validate: isValidIpv4,
+  },
+  {
+    type: 'IP Address',
+    description: 'IPv6 address',
+    riskLevel: RiskLevel.MEDIUM,
+    pattern: /\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b|\b(?:[0-9a-f]{1,4}:){1,6}:[0-9a-f]{1,4}\b/gi,
+  },
+  {
+    type: 'MAC Address',
+    description: 'Hardware (MAC) address',
+    riskLevel: RiskLevel.LOW,
+    pattern: /\b(?:[0-9A-F]{2}[:-]){5}[0-9A-F]{2}\b/gi,
+  },
+];
+
+/**
+ * Finds the OCR words covering the character range [start, end) of a line.
+ * Words are joined by single spaces, matching how the line text is rebuilt.
+ */
+const wordsInRange = (line: OcrLine, start: number, end: number) => {
+  let offset = 0;
+  return line.words.filter(word => {
+    const wordStart = offset;
+    const wordEnd = offset + word.text.length;
+    offset = wordEnd + 1;
+    return wordStart < end && wordEnd > start;
+  });
+};
+
+export interface TextMatch {
+  text: string;
+  box: BoundingBox; // Union of the OCR words the match touches
+}
+
+/** Every match of a global pattern in the OCR text, line by line. */
+export const findTextMatches = (ocr: OcrResult, pattern: RegExp): TextMatch[] =>
+  ocr.lines.flatMap(line => {
+    const text = line.words.map(w => w.text).join(' ');
+    return [...text.matchAll(pattern)].flatMap(match => {
+      // Patterns like `a*` also match the empty string everywhere
+      if (!match[0]) return [];
+      const start = match.index ?? 0;
+      const words = wordsInRange(line, start, start + match[0].length);
+      return words.length > 0 ? [{ text: match[0], box: unionBox(words.map(w => w.box)) }] : [];
+    });
+  });
+
+/**
+ * Runs the deterministic rule set over OCR output. Matches may span several
+ * words (e.g. spaced card numbers); their boxes are merged into one.
+ */
+export const detectWithRules = (ocr: OcrResult): RiskItem[] => {
+  const risks: RiskItem[] = [];
+
+  ocr.lines.forEach(line => {
+    const text = line.words.map(w => w.text).join(' ');
+    // Characters already claimed by an earlier (more specific) rule
+    const claimed: Array<[number, number]> = [];
+
+    RULES.forEach(rule => {
+      for (const match of text.matchAll(rule.pattern)) {
+        const start = match.index ?? 0;
+        const end = start + match[0].length;
+        if (claimed.some(([s, e]) => start < e && end > s)) continue;
+        if (rule.validate && !rule.validate(match[0])) continue;
+
+        const words = wordsInRange(line, start, end);
+        if (words.length === 0) continue;
+        claimed.push([start, end]);
+
+        risks.push({
+          id: contentId('rule', rule.type, match[0]),
+          type: rule.type,
+          description: `${rule.description} detected on-device.`,
+          riskLevel: rule.riskLevel,
+          box_2d: unionBox(words.map(w => w.box)),
+          isRedacted: false,
+          isHidden: false,
+          source: 'rules',
+        });
+      }
+    });
+  });
+
+  return ensureUniqueIds(risks);
+};
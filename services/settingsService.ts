@@ -0,0 +1,67 @@
+import { ExportOptions, ProviderSettings } from "../types";
+import { DEFAULT_EXPORT_OPTIONS } from "../utils/exportUtils";
+import { DEFAULT_FACE_RULE, DEFAULT_REDACTION_POLICY } from "./policyService";
+
+const PROVIDER_SETTINGS_KEY = "privacyguard.providerSettings";
+const EXPORT_OPTIONS_KEY = "privacyguard.exportOptions";
+// Bump with a step in migrateProviderSettings when saved settings need upgrading
+const PROVIDER_SETTINGS_VERSION = 2;
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  geminiModel: 'gemini-2.5-flash',
+  httpBaseUrl: 'http://localhost:11434/v1',
+  httpModel: 'llava',
+  httpApiKey: '',
+  localDetection: 'merge',
+  refineBoxes: true,
+  refineMarginPx: 4,
+  batchConcurrency: 3,
+  tileMaxSide: 2048,
+  redactionPolicy: DEFAULT_REDACTION_POLICY,
+  dictionary: [],
+  verifyExport: 'off',
+  cacheResults: true,
+  captureDelaySeconds: 3,
+};
+
+// Saved settings predate version 2 when they carry no version
+const migrateProviderSettings = (saved: any, version: number) => {
+  // v2: face redaction joined the default policy. A saved policy replaces the
+  // default wholesale, so add the face rule last, behind the user's own rules.
+  const policy = saved.redactionPolicy;
+  if (version < 2 && policy && Array.isArray(policy.rules)
+    && !policy.rules.some((rule: any) => rule?.id === DEFAULT_FACE_RULE.id)) {
+    saved = { ...saved, redactionPolicy: { ...policy, rules: [...policy.rules, DEFAULT_FACE_RULE] } };
+  }
+  return saved;
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    if (!raw) return DEFAULT_PROVIDER_SETTINGS;
+    const { version = 1, ...saved } = JSON.parse(raw);
+    return { ...DEFAULT_PROVIDER_SETTINGS, ...migrateProviderSettings(saved, version) };
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify({ ...settings, version: PROVIDER_SETTINGS_VERSION }));
+};
+
+export const loadExportOptions = (): ExportOptions => {
+  try {
+    const raw = localStorage.getItem(EXPORT_OPTIONS_KEY);
+    if (!raw) return DEFAULT_EXPORT_OPTIONS;
+    return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(raw) };
+  } catch {
+    return DEFAULT_EXPORT_OPTIONS;
+  }
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+  localStorage.setItem(EXPORT_OPTIONS_KEY, JSON.stringify(options));
+};
@@ -0,0 +1,45 @@
+import { BoundingBox, ProviderSettings, RiskItem, RiskLevel, VerificationLeak } from "../types";
+import { boxArea, intersectionArea, iou } from "../utils/geometry";
+import { analyzeScreenshot } from "./analysisService";
+
+// A re-detected finding mostly inside a redacted box is the redaction itself
+const COVERED_RATIO = 0.5;
+// How closely a leak must overlap a reviewed finding to count as the same one
+const MATCH_IOU = 0.3;
+const BLOCKING_LEVELS = [RiskLevel.HIGH, RiskLevel.MEDIUM];
+
+const isCovered = (box: BoundingBox, redacted: BoundingBox[]) => {
+  const area = boxArea(box);
+  return area > 0 && redacted.some(r => intersectionArea(box, r) / area >= COVERED_RATIO);
+};
+
+/**
+ * Runs detection again on the rendered export and returns every HIGH or
+ * MEDIUM finding that is not under one of the reviewed redactions.
+ * Embedded metadata in the export always counts; findings without a box
+ * cannot be located and are skipped. Findings the policy would ignore still
+ * count, and a provider failure rejects rather than passing on OCR alone.
+ */
+export const verifyExport = async (
+  exportedDataUrl: string,
+  reviewedRisks: RiskItem[],
+  settings: ProviderSettings
+): Promise<VerificationLeak[]> => {
+  const [header, base64] = exportedDataUrl.split(',');
+  const mimeType = header.slice('data:'.length, header.indexOf(';'));
+  const { risks } = await analyzeScreenshot(base64, mimeType, settings, { requireProvider: true });
+
+  const redactedBoxes = reviewedRisks
+    .filter(r => r.isRedacted && !r.isHidden && r.box_2d)
+    .map(r => r.box_2d!);
+
+  return risks
+    .filter(risk => BLOCKING_LEVELS.includes(risk.riskLevel))
+    .filter(risk => risk.source === 'metadata' || (risk.box_2d && !isCovered(risk.box_2d, redactedBoxes)))
+    .map(risk => ({
+      risk,
+      original: risk.box_2d
+        ? reviewedRisks.find(r => r.box_2d && iou(r.box_2d, risk.box_2d!) >= MATCH_IOU) ?? null
+        : null,
+    }));
+};
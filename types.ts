@@ -12,20 +12,53 @@ export interface BoundingBox {
   xmax: number;
 }
 
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type RedactionStyle = 'solid' | 'pixelate' | 'fill' | 'blur';
+
+// Part of box_2d that is redacted; a polygon is given by RiskItem.points
+export type RedactionShape = 'rectangle' | 'ellipse' | 'polygon';
+
+export type RiskSource = 'ai' | 'rules' | 'dictionary' | 'metadata';
+
 export interface RiskItem {
   id: string;
   type: string;
   description: string;
   riskLevel: RiskLevel;
   box_2d?: BoundingBox | null; // Normalized 0-1000
+  originalBox?: BoundingBox | null; // Box as detected, before refinement
   isHidden?: boolean; // If the user chooses to ignore this risk
   isRedacted?: boolean; // If the user has applied redaction
   customText?: string; // Custom text label for redaction
+  redactionStyle?: RedactionStyle; // Defaults to solid
+  redactionColor?: string; // Hex colour for the solid style
+  shape?: RedactionShape; // Defaults to rectangle
+  points?: Point[]; // Polygon vertices, normalized 0-1000; box_2d holds their bounds
+  source?: RiskSource; // Which detector produced the finding
+  isManual?: boolean; // Drawn by the reviewer rather than detected
+  isSelf?: boolean; // The current user's own avatar, as reported by the provider
 }
 
 export interface AnalysisResult {
   risks: RiskItem[];
   summary: string;
+  deletedRisks?: RiskItem[]; // Removed during review, kept for the audit trail
+}
+
+export interface MetadataEntry {
+  segment: 'EXIF' | 'GPS' | 'XMP' | 'IPTC' | 'ICC' | 'PNG Text' | 'Comment';
+  key: string;
+  value: string;
+  riskLevel: RiskLevel;
+}
+
+export interface MetadataReport {
+  removed: MetadataEntry[]; // Found in the original file
+  remaining: MetadataEntry[]; // Found in the exported file (expected to be empty)
 }
 
 export interface ImageFilters {
@@ -36,10 +69,198 @@ export interface ImageFilters {
   blur: number;
 }
 
+export interface OcrWord {
+  text: string;
+  box: BoundingBox; // Normalized 0-1000
+  confidence: number;
+}
+
+export interface OcrLine {
+  text: string;
+  box: BoundingBox; // Normalized 0-1000
+  words: OcrWord[];
+}
+
+export interface OcrResult {
+  width: number;
+  height: number;
+  lines: OcrLine[];
+  words: OcrWord[];
+}
+
+// An organisation-specific term (codename, customer, hostname) to find in screenshots
+export interface DictionaryEntry {
+  id: string;
+  term: string; // Literal text, matched case-insensitively, or a regular expression
+  isRegex: boolean;
+  label: string; // Finding type; the term itself when empty
+  riskLevel: RiskLevel;
+}
+
+// How the on-device rule engine combines with the remote provider
+export type LocalDetectionMode = 'off' | 'merge' | 'replace';
+
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  geminiModel: string;
+  httpBaseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  httpModel: string;
+  httpApiKey: string; // Optional, sent as a Bearer token when set
+  localDetection: LocalDetectionMode;
+  refineBoxes: boolean; // Snap detected boxes to OCR text or pixel edges
+  refineMarginPx: number; // Safety margin added around refined boxes
+  batchConcurrency: number; // Max simultaneous provider calls in batch mode; also caps tiles per image
+  tileMaxSide: number; // Images with a longer side are analyzed in tiles of this size (px); 0 disables
+  redactionPolicy: RedactionPolicy;
+  dictionary: DictionaryEntry[]; // Matched on-device and sent to the provider as hints
+  verifyExport: VerificationMode;
+  cacheResults: boolean; // Reuse the analysis and edits when the same image is opened again
+  captureDelaySeconds: number; // Countdown before a screen or camera snapshot; 0 captures at once
+}
+
+// Re-scan the rendered export before it is saved
+export type VerificationMode = 'off' | 'warn' | 'block';
+
+export interface VerificationLeak {
+  risk: RiskItem; // Finding in the exported image
+  original: RiskItem | null; // Matching finding from the review, if any
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  leaks: VerificationLeak[];
+  blocked: boolean; // The download was withheld
+}
+
+// What happens to a finding when it is first detected
+export type PolicyAction = 'redact' | 'flag' | 'ignore';
+
+export interface PolicyRule {
+  id: string;
+  riskLevels: RiskLevel[]; // Empty matches any level
+  sources: RiskSource[]; // Detector category; empty matches any
+  typePattern: string; // Case-insensitive regex tested against the finding type; empty matches any
+  action: PolicyAction;
+  label?: string; // Text drawn on the redaction
+  redactionStyle?: RedactionStyle;
+  redactionColor?: string;
+  shape?: RedactionShape;
+}
+
+export interface RedactionPolicy {
+  name: string;
+  rules: PolicyRule[]; // First matching rule wins
+  defaultAction: PolicyAction; // Used when no rule matches
+  keepOwnAvatar: boolean; // Leave the user's own avatar unredacted, whatever the rules say
+}
+
+// Why a provider call failed; decides retries and the guidance shown to the user
+export type AnalysisErrorKind = 'missing-key' | 'quota' | 'safety' | 'malformed' | 'network' | 'provider';
+
+export interface ProviderCallOptions {
+  signal?: AbortSignal;
+  // Called with every finding parsed so far while the response streams in
+  onPartial?: (risks: RiskItem[]) => void;
+}
+
+export interface DetectionProvider {
+  id: ProviderId;
+  label: string;
+  analyze: (
+    base64Image: string,
+    mimeType: string,
+    settings: ProviderSettings,
+    options?: ProviderCallOptions
+  ) => Promise<AnalysisResult>;
+}
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ExportOptions {
+  format: ExportFormat | 'source'; // 'source' keeps the uploaded file's type when possible
+  quality: number; // 0-1, used for JPEG and WebP
+  maxDimension: number | null; // Downscale so neither side exceeds this many pixels
+  fileNameTemplate: string; // Supports {name}, {date} and {timestamp}
+}
+
+// What the reviewer did with a finding, as recorded in audit reports
+export type RiskDecision = 'redacted' | 'flagged' | 'ignored' | 'deleted' | 'stripped';
+
+export interface AuditFinding {
+  id: string;
+  type: string;
+  description: string;
+  riskLevel: RiskLevel;
+  source: RiskSource | 'manual';
+  decision: RiskDecision;
+  label: string | null;
+  redactionStyle: RedactionStyle | null;
+  box: BoundingBox | null; // Normalized 0-1000
+  thumbnail: string | null; // PNG data URL cropped from the exported image
+}
+
+export interface AuditReport {
+  generatedAt: string; // ISO timestamp
+  fileName: string;
+  exportFileName: string;
+  summary: string;
+  policyName: string;
+  originalSha256: string;
+  exportedSha256: string;
+  findings: AuditFinding[];
+}
+
+export type AuditReportFormat = 'json' | 'sarif' | 'html';
+
+// The undoable part of a review: findings plus image adjustments
+export interface ReviewSnapshot {
+  analysisResult: AnalysisResult;
+  filters: ImageFilters;
+}
+
+// Analysis of one image, keyed by the SHA-256 of its bytes
+export interface AnalysisCacheEntry {
+  hash: string;
+  fingerprint: string; // Provider, model, prompt and detection settings that produced the result
+  analysisResult: AnalysisResult; // As analyzed, before any edits
+  review: ReviewSnapshot | null; // Latest edits, re-applied by risk ID after a re-analysis
+  lastUsedAt: number; // For least-recently-used eviction
+}
+
+// A review session saved to disk or autosaved, reopenable without re-analysis
+export interface ProjectFile {
+  version: 1;
+  savedAt: string; // ISO timestamp
+  fileName: string;
+  mimeType: string;
+  imageBase64: string;
+  analysisResult: AnalysisResult; // Includes every manual box and edit
+  filters: ImageFilters;
+  policy: RedactionPolicy; // Policy that set the initial redactions
+}
+
+export type BatchItemStatus = 'queued' | 'analyzing' | 'ready' | 'approved' | 'error';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  imageUrl: string;
+  imageBase64: string;
+  status: BatchItemStatus;
+  analysisResult: AnalysisResult | null;
+  filters: ImageFilters;
+  error: string | null;
+}
+
 export interface AppState {
-  currentStep: 'UPLOAD' | 'CAPTURE' | 'ANALYZING' | 'REVIEW';
+  currentStep: 'UPLOAD' | 'CAPTURE' | 'ANALYZING' | 'REVIEW' | 'BATCH';
   imageUrl: string | null;
   imageBase64: string | null; // For sending to API
+  mimeType: string | null; // Actual type of the uploaded or captured image
+  fileName: string | null; // Original file name, used for export names
   analysisResult: AnalysisResult | null;
   error: string | null;
 }
\ No newline at end of file
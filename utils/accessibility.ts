@@ -0,0 +1,10 @@
+import { RiskItem } from "../types";
+
+/** What a screen reader says for a finding, on the canvas and in the sidebar alike. */
+export const describeRisk = (risk: RiskItem) => {
+  const state = risk.source === 'metadata' ? 'stripped on export' : (risk.isRedacted ? 'redacted' : 'not redacted');
+  const details = risk.description ? `. ${risk.description}` : '';
+  return `${risk.type}, ${risk.riskLevel.toLowerCase()} risk, ${state}${details}`;
+};
+
+export const KEYBOARD_SHORTCUTS = 'Tab or J and K move between findings. R toggles redaction, Delete removes the box, arrow keys move it and Shift with arrow keys resizes it. Escape clears the selection.';
@@ -1,69 +1,221 @@
-import { RiskItem, ImageFilters } from "../types";
+import { RiskItem, ImageFilters, ExportOptions, BoundingBox } from "../types";
+import { applyRedactions, boxToPixelRect, labelColorAt, PixelBuffer } from "./redaction";
+import { buildExportFileName, resolveExportFormat, scaledSize } from "./exportUtils";
 
-export const downloadRedactedImage = (
+export const loadImage = (imageUrl: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = imageUrl;
+  });
+
+export const loadImageData = async (imageUrl: string): Promise<ImageData> => {
+  const img = await loadImage(imageUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/** Encodes raw pixels as PNG and returns the base64 payload (no data URL prefix). */
+export const encodePngBase64 = async (image: PixelBuffer): Promise<string> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  return canvas.toDataURL("image/png").split(',')[1];
+};
+
+/**
+ * Grabs the current video frame as a PNG data URL. The size comes from the
+ * track settings, which report the real capture resolution; videoWidth is 0
+ * until metadata loads and can lag behind a shared window that was resized.
+ */
+export const captureVideoFrame = (video: HTMLVideoElement, track?: MediaStreamTrack): string => {
+  const settings = track?.getSettings();
+  const width = settings?.width || video.videoWidth;
+  const height = settings?.height || video.videoHeight;
+  if (!width || !height) throw new Error("The video has no frame yet");
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(video, 0, 0, width, height);
+  return canvas.toDataURL("image/png");
+};
+
+/** Crops the image to a normalized (0-1000) box and returns it as a PNG data URL. */
+export const cropImage = async (imageUrl: string, box: BoundingBox): Promise<string> => {
+  const img = await loadImage(imageUrl);
+  const rect = boxToPixelRect(box, img.naturalWidth, img.naturalHeight);
+  if (rect.w === 0 || rect.h === 0) throw new Error("The selected region is empty");
+  const canvas = document.createElement("canvas");
+  canvas.width = rect.w;
+  canvas.height = rect.h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(img, rect.x, rect.y, rect.w, rect.h, 0, 0, rect.w, rect.h);
+  return canvas.toDataURL("image/png");
+};
+
+export const DEFAULT_FILTERS: ImageFilters = {
+  grayscale: 0,
+  sepia: 0,
+  brightness: 100,
+  contrast: 100,
+  blur: 0
+};
+
+export const filterToCss = (filters: ImageFilters) =>
+  `grayscale(${filters.grayscale}%) sepia(${filters.sepia}%) brightness(${filters.brightness}%) contrast(${filters.contrast}%) blur(${filters.blur}px)`;
+
+/** Pixels of the image with the adjustment filters applied, before any redaction. */
+export const renderFilteredImageData = (img: HTMLImageElement, filters: ImageFilters): ImageData => {
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.filter = filterToCss(filters);
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Draws the final redacted output onto a canvas: filtered pixels, burned-in
+ * redactions, then overlay labels. Used by both the preview and the export
+ * so what the user reviews is exactly what gets saved.
+ */
+export const drawRedactedImage = (
+  canvas: HTMLCanvasElement,
+  base: ImageData,
+  risks: RiskItem[]
+) => {
+  canvas.width = base.width;
+  canvas.height = base.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const image = new ImageData(new Uint8ClampedArray(base.data), base.width, base.height);
+  applyRedactions(image, risks);
+  ctx.putImageData(image, 0, 0);
+
+  // Draw Custom Text Labels
+  risks.forEach((risk) => {
+    if (!risk.isRedacted || !risk.box_2d || !risk.customText) return;
+    const rect = boxToPixelRect(risk.box_2d, canvas.width, canvas.height);
+    ctx.fillStyle = labelColorAt(image, rect);
+
+    // Calculate dynamic font size based on box height, max 24px, min 10px
+    const fontSize = Math.max(10, Math.min(rect.h * 0.5, 24));
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+
+    // Ensure text fits width-wise approximately
+    ctx.fillText(risk.customText, rect.x + rect.w / 2, rect.y + rect.h / 2, rect.w);
+  });
+};
+
+/**
+ * Renders the redacted image in the requested export format without
+ * downloading it. Resolves with the encoded data URL and its file name.
+ */
+export const renderExport = async (
   imageUrl: string,
   risks: RiskItem[],
   filters: ImageFilters,
-  onSuccess: () => void
-) => {
-  const img = new Image();
-  img.crossOrigin = "anonymous";
-  img.src = imageUrl;
+  options: ExportOptions,
+  source: { mimeType: string | null; fileName: string | null }
+): Promise<{ dataUrl: string; fileName: string }> => {
+  const img = await loadImage(imageUrl);
+  const canvas = document.createElement("canvas");
+  drawRedactedImage(canvas, renderFilteredImageData(img, filters), risks);
+
+  // Redact at full resolution first, then downscale the already-redacted pixels
+  const size = scaledSize(canvas.width, canvas.height, options.maxDimension);
+  let output = canvas;
+  if (size.width !== canvas.width || size.height !== canvas.height) {
+    output = document.createElement("canvas");
+    output.width = size.width;
+    output.height = size.height;
+    const ctx = output.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not supported");
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(canvas, 0, 0, size.width, size.height);
+  }
+
+  // Re-encoding from canvas pixels never carries over EXIF/XMP/text chunks
+  // from the source file.
+  const format = resolveExportFormat(options.format, source.mimeType);
+  const dataUrl = output.toDataURL(format, options.quality);
+  // Browsers that cannot encode the format (often WebP) silently return PNG,
+  // so name the file after what was actually encoded
+  const encoded = dataUrl.slice("data:".length, dataUrl.indexOf(";"));
+  return {
+    dataUrl,
+    fileName: buildExportFileName(options.fileNameTemplate, source.fileName, encoded === format ? format : "image/png"),
+  };
+};
+
+/**
+ * Crops a small PNG around each boxed risk, keyed by risk ID. Pass the
+ * exported image so the crops show what was published, never the secret.
+ */
+export const cropThumbnails = async (
+  imageUrl: string,
+  risks: RiskItem[],
+  maxSize = 160
+): Promise<Record<string, string>> => {
+  const img = await loadImage(imageUrl);
+  const thumbnails: Record<string, string> = {};
+
+  risks.forEach(risk => {
+    if (!risk.box_2d) return;
+    const rect = boxToPixelRect(risk.box_2d, img.naturalWidth, img.naturalHeight);
+    // Include some context around the box
+    const pad = Math.round(Math.max(rect.w, rect.h) * 0.15);
+    const x = Math.max(0, rect.x - pad);
+    const y = Math.max(0, rect.y - pad);
+    const w = Math.min(img.naturalWidth, rect.x + rect.w + pad) - x;
+    const h = Math.min(img.naturalHeight, rect.y + rect.h + pad) - y;
+    if (w <= 0 || h <= 0) return;
 
-  img.onload = () => {
+    const scale = Math.min(1, maxSize / Math.max(w, h));
     const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(w * scale));
+    canvas.height = Math.max(1, Math.round(h * scale));
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
+    ctx.drawImage(img, x, y, w, h, 0, 0, canvas.width, canvas.height);
+    thumbnails[risk.id] = canvas.toDataURL("image/png");
+  });
 
-    canvas.width = img.naturalWidth;
-    canvas.height = img.naturalHeight;
-
-    // Apply filters
-    const filterString = `grayscale(${filters.grayscale}%) sepia(${filters.sepia}%) brightness(${filters.brightness}%) contrast(${filters.contrast}%) blur(${filters.blur}px)`;
-    ctx.filter = filterString;
-
-    // Draw original image
-    ctx.drawImage(img, 0, 0);
-
-    // Reset filter for redactions (we want solid black/patterns, not filtered)
-    ctx.filter = 'none';
-
-    // Draw redactions
-    risks.forEach((risk) => {
-      if (risk.isRedacted && risk.box_2d) {
-        const { ymin, xmin, ymax, xmax } = risk.box_2d;
-        
-        // Convert 0-1000 scale to pixel coordinates
-        const x = (xmin / 1000) * canvas.width;
-        const y = (ymin / 1000) * canvas.height;
-        const w = ((xmax - xmin) / 1000) * canvas.width;
-        const h = ((ymax - ymin) / 1000) * canvas.height;
-
-        // Draw black rectangle
-        ctx.fillStyle = "#000000";
-        ctx.fillRect(x, y, w, h);
-
-        // Draw Custom Text Label if present
-        if (risk.customText) {
-          ctx.fillStyle = "#ffffff";
-          
-          // Calculate dynamic font size based on box height, max 24px, min 10px
-          const fontSize = Math.max(10, Math.min(h * 0.5, 24)); 
-          ctx.font = `bold ${fontSize}px sans-serif`;
-          ctx.textAlign = "center";
-          ctx.textBaseline = "middle";
-          
-          // Ensure text fits width-wise approximately
-          ctx.fillText(risk.customText, x + w / 2, y + h / 2, w); 
-        }
-      }
-    });
-
-    // Trigger download
-    const link = document.createElement("a");
-    link.download = `safe-screenshot-${Date.now()}.png`;
-    link.href = canvas.toDataURL("image/png");
-    link.click();
-    onSuccess();
-  };
-};
\ No newline at end of file
+  return thumbnails;
+};
+
+export const triggerDownload = (href: string, fileName: string) => {
+  const link = document.createElement("a");
+  link.download = fileName;
+  link.href = href;
+  link.click();
+};
+
+/**
+ * Writes a PNG to the clipboard. Takes a promise so the write starts inside
+ * the click handler, which Safari requires, while the image is still rendering.
+ */
+export const copyImageToClipboard = async (png: Promise<Blob>) => {
+  if (!navigator.clipboard?.write || typeof ClipboardItem === "undefined") {
+    throw new Error("This browser cannot copy images to the clipboard. Use Download instead.");
+  }
+  await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+};
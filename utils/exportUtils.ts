@@ -0,0 +1,52 @@
+import { ExportFormat, ExportOptions } from "../types";
+
+export const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string; extension: string }> = [
+  { value: 'image/png', label: 'PNG', extension: 'png' },
+  { value: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+  { value: 'image/webp', label: 'WebP', extension: 'webp' },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'source',
+  quality: 0.92,
+  maxDimension: null,
+  fileNameTemplate: '{name}-safe',
+};
+
+/** Resolves 'source' to the uploaded file's type, falling back to PNG for anything we cannot encode. */
+export const resolveExportFormat = (format: ExportOptions['format'], sourceMimeType: string | null): ExportFormat => {
+  if (format !== 'source') return format;
+  return EXPORT_FORMATS.find(f => f.value === sourceMimeType)?.value ?? 'image/png';
+};
+
+export const extensionFor = (format: ExportFormat) =>
+  EXPORT_FORMATS.find(f => f.value === format)?.extension ?? 'png';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Expands the filename template. {name} is the original file name without
+ * its extension, {date} is YYYY-MM-DD and {timestamp} is epoch milliseconds.
+ */
+export const buildExportFileName = (
+  template: string,
+  sourceName: string | null,
+  format: ExportFormat,
+  now = new Date()
+) => {
+  const name = (sourceName ?? 'screenshot').replace(/\.[^.]+$/, '') || 'screenshot';
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+  const base = (template || DEFAULT_EXPORT_OPTIONS.fileNameTemplate)
+    .replace(/\{name\}/g, name)
+    .replace(/\{date\}/g, date)
+    .replace(/\{timestamp\}/g, String(now.getTime()))
+    .replace(/[\\/:*?"<>|]/g, '_');
+  return `${base}.${extensionFor(format)}`;
+};
+
+/** Output size after applying the optional downscale limit; never upscales. */
+export const scaledSize = (width: number, height: number, maxDimension: number | null) => {
+  if (!maxDimension || Math.max(width, height) <= maxDimension) return { width, height };
+  const scale = maxDimension / Math.max(width, height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
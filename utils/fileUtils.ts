@@ -0,0 +1,71 @@
+export const readFileAsDataUrl = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read file"));
+    reader.readAsDataURL(file);
+  });
+
+export const isImageFile = (file: File) => file.type.startsWith('image/');
+
+// Reads every file below a dropped directory entry (webkitGetAsEntry API)
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise(resolve => (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([])));
+  }
+  if (!entry.isDirectory) return Promise.resolve([]);
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  return new Promise(resolve => {
+    const children: FileSystemEntry[] = [];
+    // readEntries returns results in chunks until it yields an empty batch
+    const readBatch = () => reader.readEntries(async batch => {
+      if (batch.length === 0) {
+        const nested = await Promise.all(children.map(readEntry));
+        resolve(nested.flat());
+        return;
+      }
+      children.push(...batch);
+      readBatch();
+    }, () => resolve([]));
+    readBatch();
+  });
+};
+
+/**
+ * Collects image files from a drop, descending into dropped folders.
+ * Falls back to the flat file list where the entries API is unavailable.
+ */
+export const collectDroppedImages = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  const files = entries.length > 0
+    ? (await Promise.all(entries.map(readEntry))).flat()
+    : Array.from(dataTransfer.files);
+
+  return files.filter(isImageFile);
+};
+
+// Pasted screenshots usually arrive unnamed or as "image.png"
+const namePastedImage = (file: File) =>
+  file.name && file.name !== 'image.png'
+    ? file
+    : new File([file], `pasted-${new Date().toISOString().replace(/[:.]/g, '-')}.${file.type.split('/')[1] || 'png'}`, { type: file.type });
+
+/** Image files from a paste event. */
+export const pastedImages = (clipboardData: DataTransfer | null): File[] =>
+  Array.from(clipboardData?.files ?? []).filter(isImageFile).map(namePastedImage);
+
+/** Reads images from the clipboard through the async Clipboard API (needs permission). */
+export const readClipboardImages = async (): Promise<File[]> => {
+  if (!navigator.clipboard?.read) throw new Error("This browser cannot read images from the clipboard. Press Ctrl+V instead.");
+  const items = await navigator.clipboard.read();
+  const files = await Promise.all(items.map(async item => {
+    const type = item.types.find(t => t.startsWith('image/'));
+    if (!type) return null;
+    return namePastedImage(new File([await item.getType(type)], '', { type }));
+  }));
+  return files.filter((file): file is File => !!file);
+};
@@ -0,0 +1,126 @@
+import { BoundingBox, Point } from "../types";
+
+export const boxArea = (box: BoundingBox) =>
+  Math.max(0, box.xmax - box.xmin) * Math.max(0, box.ymax - box.ymin);
+
+export const unionBox = (boxes: BoundingBox[]): BoundingBox => ({
+  ymin: Math.min(...boxes.map(b => b.ymin)),
+  xmin: Math.min(...boxes.map(b => b.xmin)),
+  ymax: Math.max(...boxes.map(b => b.ymax)),
+  xmax: Math.max(...boxes.map(b => b.xmax)),
+});
+
+export const intersectionArea = (a: BoundingBox, b: BoundingBox) => {
+  const w = Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin);
+  const h = Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin);
+  return w > 0 && h > 0 ? w * h : 0;
+};
+
+// Intersection over union, 0 when the boxes do not touch
+export const iou = (a: BoundingBox, b: BoundingBox) => {
+  const inter = intersectionArea(a, b);
+  if (inter === 0) return 0;
+  return inter / (boxArea(a) + boxArea(b) - inter);
+};
+
+const clamp = (value: number) => Math.min(1000, Math.max(0, value));
+
+export const clampPoint = (point: Point): Point => ({ x: clamp(point.x), y: clamp(point.y) });
+
+export const boundsOfPoints = (points: Point[]): BoundingBox => ({
+  ymin: Math.min(...points.map(p => p.y)),
+  xmin: Math.min(...points.map(p => p.x)),
+  ymax: Math.max(...points.map(p => p.y)),
+  xmax: Math.max(...points.map(p => p.x)),
+});
+
+export const boxCorners = (box: BoundingBox): Point[] => [
+  { x: box.xmin, y: box.ymin },
+  { x: box.xmax, y: box.ymin },
+  { x: box.xmax, y: box.ymax },
+  { x: box.xmin, y: box.ymax },
+];
+
+// Even-odd rule, so self-intersecting lasso paths still fill predictably
+export const pointInPolygon = (x: number, y: number, points: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/** Ramer-Douglas-Peucker: drops points that deviate less than `tolerance` from the path. */
+export const simplifyPath = (points: Point[], tolerance: number): Point[] => {
+  if (points.length < 3) return points;
+  let index = 0;
+  let furthest = 0;
+  const first = points[0];
+  const last = points[points.length - 1];
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], first, last);
+    if (distance > furthest) {
+      furthest = distance;
+      index = i;
+    }
+  }
+  if (furthest <= tolerance) return [first, last];
+  return [
+    ...simplifyPath(points.slice(0, index + 1), tolerance).slice(0, -1),
+    ...simplifyPath(points.slice(index), tolerance),
+  ];
+};
+
+// The 0-1000 scale stretches x and y differently on non-square images, so
+// angles are measured after scaling by the displayed width (sx) and height (sy)
+
+/** Angle of `point` around `center`, in radians, as seen on screen. */
+export const angleAround = (center: Point, point: Point, sx: number, sy: number) =>
+  Math.atan2((point.y - center.y) * sy, (point.x - center.x) * sx);
+
+export const rotatePoints = (points: Point[], center: Point, radians: number, sx: number, sy: number): Point[] => {
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return points.map(p => {
+    const dx = (p.x - center.x) * sx;
+    const dy = (p.y - center.y) * sy;
+    return clampPoint({ x: center.x + (dx * cos - dy * sin) / sx, y: center.y + (dx * sin + dy * cos) / sy });
+  });
+};
+
+/**
+ * Corners of a rectangle with one edge from `start` to `end`, extended
+ * perpendicular to that edge as far as `pointer`.
+ */
+export const rotatedRectangle = (start: Point, end: Point, pointer: Point, sx: number, sy: number): Point[] => {
+  const dx = (end.x - start.x) * sx;
+  const dy = (end.y - start.y) * sy;
+  const length = Math.hypot(dx, dy) || 1;
+  const nx = -dy / length;
+  const ny = dx / length;
+  const height = (pointer.x - start.x) * sx * nx + (pointer.y - start.y) * sy * ny;
+  const offset = { x: (nx * height) / sx, y: (ny * height) / sy };
+  return [
+    start,
+    end,
+    { x: end.x + offset.x, y: end.y + offset.y },
+    { x: start.x + offset.x, y: start.y + offset.y },
+  ].map(clampPoint);
+};
+
+/** Maps points inside `from` to the same relative positions inside `to`. */
+export const mapPointsToBox = (points: Point[], from: BoundingBox, to: BoundingBox): Point[] => {
+  const scaleX = (to.xmax - to.xmin) / ((from.xmax - from.xmin) || 1);
+  const scaleY = (to.ymax - to.ymin) / ((from.ymax - from.ymin) || 1);
+  return points.map(p => ({ x: to.xmin + (p.x - from.xmin) * scaleX, y: to.ymin + (p.y - from.ymin) * scaleY }));
+};
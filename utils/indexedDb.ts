@@ -0,0 +1,53 @@
+// Small promise wrapper over the app's IndexedDB key-value stores
+
+const DB_NAME = 'privacyguard';
+const DB_VERSION = 2;
+const STORES = ['projects', 'analyses'] as const;
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) request.result.createObjectStore(store);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error("Could not open IndexedDB"));
+    });
+    // Allow a later call to retry (e.g. after private-mode restrictions are lifted)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T,>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed"));
+  });
+};
+
+export const idbGet = <T,>(store: StoreName, key: string) =>
+  run<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbPut = async (store: StoreName, key: string, value: unknown) => {
+  await run(store, 'readwrite', s => s.put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: string) => {
+  await run(store, 'readwrite', s => s.delete(key));
+};
+
+export const idbGetAll = <T,>(store: StoreName) =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbClear = async (store: StoreName) => {
+  await run(store, 'readwrite', s => s.clear());
+};
@@ -0,0 +1,298 @@
+import { BoundingBox, Point, RedactionShape, RedactionStyle, RiskItem } from "../types";
+import { pointInPolygon } from "./geometry";
+
+// Minimal RGBA buffer shape; ImageData satisfies it, so does a decoded PNG in Node
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+export interface PixelRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export const DEFAULT_REDACTION_STYLE: RedactionStyle = 'solid';
+export const DEFAULT_REDACTION_COLOR = '#000000';
+
+export const REDACTION_STYLES: Array<{ value: RedactionStyle; label: string }> = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'pixelate', label: 'Pixelate' },
+  { value: 'fill', label: 'Match Background' },
+  { value: 'blur', label: 'Blur + Noise' },
+];
+
+// Shapes derived from the box alone; polygons are drawn in the viewer
+export const REDACTION_SHAPES: Array<{ value: RedactionShape; label: string }> = [
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'ellipse', label: 'Ellipse' },
+];
+
+// Blocks smaller than this leave enough signal for depixelation attacks
+const MIN_PIXELATE_BLOCK = 16;
+const NOISE_AMPLITUDE = 24;
+
+/** Converts a 0-1000 box into whole pixels, rounding outward so edges are always covered. */
+export const boxToPixelRect = (box: BoundingBox, width: number, height: number): PixelRect => {
+  const x0 = Math.max(0, Math.floor((box.xmin / 1000) * width));
+  const y0 = Math.max(0, Math.floor((box.ymin / 1000) * height));
+  const x1 = Math.min(width, Math.ceil((box.xmax / 1000) * width));
+  const y1 = Math.min(height, Math.ceil((box.ymax / 1000) * height));
+  return { x: x0, y: y0, w: Math.max(0, x1 - x0), h: Math.max(0, y1 - y0) };
+};
+
+// Seeded PRNG so the noise in the preview and the export are identical
+const seededRandom = (seed: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return () => {
+    h = (h + 0x6D2B79F5) | 0;
+    let t = Math.imul(h ^ (h >>> 15), 1 | h);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const parseHexColor = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value.padEnd(6, '0');
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0) as [number, number, number];
+};
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+const fillRect = (image: PixelBuffer, rect: PixelRect, rgb: [number, number, number]) => {
+  const { width, data } = image;
+  const [r, g, b] = rgb.map(clampByte);
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = r; data[i + 1] = g; data[i + 2] = b; data[i + 3] = 255;
+    }
+  }
+};
+
+const addNoise = (image: PixelBuffer, rect: PixelRect, random: () => number) => {
+  const { width, data } = image;
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const i = (y * width + x) * 4;
+      const n = (random() - 0.5) * 2 * NOISE_AMPLITUDE;
+      data[i] = Math.max(0, Math.min(255, data[i] + n));
+      data[i + 1] = Math.max(0, Math.min(255, data[i + 1] + n));
+      data[i + 2] = Math.max(0, Math.min(255, data[i + 2] + n));
+    }
+  }
+};
+
+/**
+ * Most common colour in a ring just outside the rect, i.e. the UI background
+ * the redacted content sits on.
+ */
+export const sampleSurroundingColor = (image: PixelBuffer, rect: PixelRect, ring = 3): [number, number, number] => {
+  const { width, height, data } = image;
+  const buckets = new Map<number, [number, number, number, number]>();
+  const sample = (x: number, y: number) => {
+    if (x < 0 || y < 0 || x >= width || y >= height) return;
+    if (x >= rect.x && x < rect.x + rect.w && y >= rect.y && y < rect.y + rect.h) return;
+    const i = (y * width + x) * 4;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? [0, 0, 0, 0];
+    bucket[0] += data[i]; bucket[1] += data[i + 1]; bucket[2] += data[i + 2]; bucket[3]++;
+    buckets.set(key, bucket);
+  };
+  for (let d = 1; d <= ring; d++) {
+    for (let x = rect.x - d; x < rect.x + rect.w + d; x++) {
+      sample(x, rect.y - d);
+      sample(x, rect.y + rect.h - 1 + d);
+    }
+    for (let y = rect.y - d; y < rect.y + rect.h + d; y++) {
+      sample(rect.x - d, y);
+      sample(rect.x + rect.w - 1 + d, y);
+    }
+  }
+  let best: [number, number, number, number] | null = null;
+  buckets.forEach(bucket => { if (!best || bucket[3] > best[3]) best = bucket; });
+  if (!best) return [0, 0, 0];
+  const [r, g, b, n] = best;
+  return [Math.round(r / n), Math.round(g / n), Math.round(b / n)];
+};
+
+const pixelate = (image: PixelBuffer, rect: PixelRect, random: () => number) => {
+  const { width, data } = image;
+  const block = Math.max(MIN_PIXELATE_BLOCK, Math.ceil(Math.min(rect.w, rect.h) / 2));
+  for (let by = rect.y; by < rect.y + rect.h; by += block) {
+    for (let bx = rect.x; bx < rect.x + rect.w; bx += block) {
+      const bw = Math.min(block, rect.x + rect.w - bx);
+      const bh = Math.min(block, rect.y + rect.h - by);
+      let r = 0, g = 0, b = 0;
+      for (let y = by; y < by + bh; y++) {
+        for (let x = bx; x < bx + bw; x++) {
+          const i = (y * width + x) * 4;
+          r += data[i]; g += data[i + 1]; b += data[i + 2];
+        }
+      }
+      const n = bw * bh;
+      // Per-block jitter breaks the exact averages depixelation relies on
+      const jitter = (random() - 0.5) * NOISE_AMPLITUDE;
+      fillRect(image, { x: bx, y: by, w: bw, h: bh }, [r / n + jitter, g / n + jitter, b / n + jitter]);
+    }
+  }
+};
+
+// Separable box blur confined to the rect, run three times to approximate a gaussian
+const blur = (image: PixelBuffer, rect: PixelRect, radius: number) => {
+  const { width, data } = image;
+  const line = new Float32Array(Math.max(rect.w, rect.h) * 3);
+
+  const pass = (horizontal: boolean) => {
+    const outer = horizontal ? rect.h : rect.w;
+    const inner = horizontal ? rect.w : rect.h;
+    for (let o = 0; o < outer; o++) {
+      const index = (k: number) => horizontal
+        ? ((rect.y + o) * width + rect.x + k) * 4
+        : ((rect.y + k) * width + rect.x + o) * 4;
+      for (let k = 0; k < inner; k++) {
+        const i = index(k);
+        line[k * 3] = data[i]; line[k * 3 + 1] = data[i + 1]; line[k * 3 + 2] = data[i + 2];
+      }
+      // Sliding window sum over [k - radius, k + radius], clamped to the rect
+      let r = 0, g = 0, b = 0, n = 0;
+      for (let j = 0; j < Math.min(inner, radius); j++) {
+        r += line[j * 3]; g += line[j * 3 + 1]; b += line[j * 3 + 2]; n++;
+      }
+      for (let k = 0; k < inner; k++) {
+        const add = k + radius;
+        if (add < inner) { r += line[add * 3]; g += line[add * 3 + 1]; b += line[add * 3 + 2]; n++; }
+        const drop = k - radius - 1;
+        if (drop >= 0) { r -= line[drop * 3]; g -= line[drop * 3 + 1]; b -= line[drop * 3 + 2]; n--; }
+        const i = index(k);
+        data[i] = r / n; data[i + 1] = g / n; data[i + 2] = b / n;
+      }
+    }
+  };
+
+  for (let i = 0; i < 3; i++) {
+    pass(true);
+    pass(false);
+  }
+};
+
+// Whether a pixel of the rect is inside the redacted shape
+export type PixelMask = (x: number, y: number) => boolean;
+
+export const ellipseMask = (rect: PixelRect): PixelMask => {
+  const rx = rect.w / 2;
+  const ry = rect.h / 2;
+  const cx = rect.x + rx;
+  const cy = rect.y + ry;
+  // Test pixel centres, so small ellipses still cover their middle row and column
+  return (x, y) => ((x + 0.5 - cx) / rx) ** 2 + ((y + 0.5 - cy) / ry) ** 2 <= 1;
+};
+
+/** Mask for polygon vertices given in pixels of the image. */
+export const polygonMask = (points: Point[]): PixelMask =>
+  (x, y) => pointInPolygon(x + 0.5, y + 0.5, points);
+
+/** The mask for a risk's shape within its pixel rect; undefined means the whole rect. */
+export const shapeMask = (
+  risk: Pick<RiskItem, 'shape' | 'points'>,
+  rect: PixelRect,
+  width: number,
+  height: number
+): PixelMask | undefined => {
+  if (risk.shape === 'polygon' && risk.points && risk.points.length >= 3) {
+    return polygonMask(risk.points.map(p => ({ x: (p.x / 1000) * width, y: (p.y / 1000) * height })));
+  }
+  return risk.shape === 'ellipse' ? ellipseMask(rect) : undefined;
+};
+
+/** Puts back the original pixels of the rect that fall outside the mask. */
+const restoreOutside = (image: PixelBuffer, rect: PixelRect, original: Uint8ClampedArray | Uint8Array, mask: PixelMask) => {
+  const { width, data } = image;
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      if (mask(x, y)) continue;
+      const i = (y * width + x) * 4;
+      const j = ((y - rect.y) * rect.w + (x - rect.x)) * 4;
+      data[i] = original[j]; data[i + 1] = original[j + 1]; data[i + 2] = original[j + 2]; data[i + 3] = original[j + 3];
+    }
+  }
+};
+
+const copyRect = (image: PixelBuffer, rect: PixelRect) => {
+  const copy = new Uint8ClampedArray(rect.w * rect.h * 4);
+  for (let row = 0; row < rect.h; row++) {
+    const start = ((rect.y + row) * image.width + rect.x) * 4;
+    copy.set(image.data.subarray(start, start + rect.w * 4), row * rect.w * 4);
+  }
+  return copy;
+};
+
+/**
+ * Applies a single redaction style to a pixel rect in place. With a mask,
+ * the style is computed over the whole rect and kept only inside the mask.
+ */
+export const redactRect = (
+  image: PixelBuffer,
+  rect: PixelRect,
+  style: RedactionStyle,
+  color: string,
+  seed: string,
+  mask?: PixelMask
+) => {
+  if (rect.w <= 0 || rect.h <= 0) return;
+  const random = seededRandom(seed);
+  const original = mask ? copyRect(image, rect) : null;
+
+  switch (style) {
+    case 'pixelate':
+      pixelate(image, rect, random);
+      break;
+    case 'fill':
+      fillRect(image, rect, sampleSurroundingColor(image, rect));
+      break;
+    case 'blur':
+      blur(image, rect, Math.max(8, Math.ceil(Math.min(rect.w, rect.h) / 2)));
+      addNoise(image, rect, random);
+      break;
+    default:
+      fillRect(image, rect, parseHexColor(color));
+  }
+
+  if (mask && original) restoreOutside(image, rect, original, mask);
+};
+
+/**
+ * Burns every redacted risk into the pixel buffer. Pure pixel maths with no
+ * DOM access, so the browser preview, the export and headless tools agree.
+ */
+export const applyRedactions = (image: PixelBuffer, risks: RiskItem[]) => {
+  risks.forEach(risk => {
+    if (!risk.isRedacted || !risk.box_2d) return;
+    const rect = boxToPixelRect(risk.box_2d, image.width, image.height);
+    redactRect(
+      image,
+      rect,
+      risk.redactionStyle ?? DEFAULT_REDACTION_STYLE,
+      risk.redactionColor ?? DEFAULT_REDACTION_COLOR,
+      risk.id,
+      shapeMask(risk, rect, image.width, image.height)
+    );
+  });
+};
+
+/** Black or white, whichever reads better on top of the redacted rect. */
+export const labelColorAt = (image: PixelBuffer, rect: PixelRect) => {
+  const cx = Math.min(image.width - 1, rect.x + Math.floor(rect.w / 2));
+  const cy = Math.min(image.height - 1, rect.y + Math.floor(rect.h / 2));
+  const i = (cy * image.width + cx) * 4;
+  const luminance = 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+  return luminance > 150 ? '#000000' : '#ffffff';
+};
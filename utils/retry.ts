@@ -0,0 +1,43 @@
+export interface RetryOptions {
+  attempts: number; // Total tries, including the first
+  baseDelayMs: number; // Doubled after every failure
+  maxDelayMs: number;
+  shouldRetry: (error: unknown) => boolean;
+  // Lets the error override the computed delay (e.g. a Retry-After header)
+  delayFor?: (error: unknown) => number | undefined;
+  signal?: AbortSignal; // Stops retrying (and waiting) once aborted
+}
+
+// Rejects with the abort reason as soon as the signal fires, instead of waiting out the delay
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/** Runs `task` until it succeeds, a non-retryable error occurs, or attempts run out. */
+export const withRetry = async <T,>(task: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await task();
+    } catch (error) {
+      if (options.signal?.aborted) throw options.signal.reason;
+      if (attempt >= options.attempts || !options.shouldRetry(error)) throw error;
+      // Full jitter keeps parallel tiles/batch items from retrying in lockstep
+      const backoff = Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+      await sleep(Math.min(options.maxDelayMs, options.delayFor?.(error) ?? backoff), options.signal);
+    }
+  }
+};
@@ -0,0 +1,25 @@
+import { BoundingBox, RiskItem } from "../types";
+import { hashString } from "./hash";
+
+// Boxes are compared on a coarse grid so a re-run that nudges a box by a few units keeps its ID
+const BOX_GRID = 10;
+
+const boxKey = (box: BoundingBox | null | undefined) =>
+  box ? [box.ymin, box.xmin, box.ymax, box.xmax].map(v => Math.round(v / BOX_GRID)).join(',') : '';
+
+/**
+ * An ID derived from what was found and where, so the same finding gets the
+ * same ID every time the same image is analyzed and edits can be re-applied.
+ */
+export const contentId = (prefix: string, ...parts: Array<string | BoundingBox | null | undefined>) =>
+  `${prefix}-${hashString(parts.map(part => typeof part === 'string' ? part.trim().toLowerCase() : boxKey(part)).join('|'))}`;
+
+/** Suffixes repeated IDs (identical findings) in order of appearance, so every ID is unique. */
+export const ensureUniqueIds = <T extends Pick<RiskItem, 'id'>>(risks: T[]): T[] => {
+  const seen = new Map<string, number>();
+  return risks.map(risk => {
+    const count = (seen.get(risk.id) ?? 0) + 1;
+    seen.set(risk.id, count);
+    return count === 1 ? risk : { ...risk, id: `${risk.id}-${count}` };
+  });
+};
@@ -0,0 +1,88 @@
+import { BoundingBox, RiskItem, RiskLevel } from "../types";
+import { boxArea, intersectionArea, unionBox } from "./geometry";
+import { PixelBuffer, PixelRect } from "./redaction";
+
+// Share of each tile that overlaps its neighbour, so text cut at one edge is whole in the next tile
+const TILE_OVERLAP = 0.15;
+// Same-category findings overlapping this much of the smaller box are one finding
+const DUPLICATE_OVERLAP = 0.5;
+
+const SEVERITY: Record<RiskLevel, number> = {
+  [RiskLevel.HIGH]: 3,
+  [RiskLevel.MEDIUM]: 2,
+  [RiskLevel.LOW]: 1,
+  [RiskLevel.SAFE]: 0,
+};
+
+// Smaller tiles would turn one screenshot into thousands of provider calls
+export const MIN_TILE_SIDE = 512;
+
+/** 0 (or anything not a positive number) turns tiling off; other sizes are raised to MIN_TILE_SIDE. */
+export const clampTileMaxSide = (value: number) =>
+  Number.isFinite(value) && value > 0 ? Math.max(MIN_TILE_SIDE, Math.round(value)) : 0;
+
+const planAxis = (length: number, maxSide: number): Array<[number, number]> => {
+  if (length <= maxSide) return [[0, length]];
+  const overlap = Math.round(maxSide * TILE_OVERLAP);
+  const count = Math.ceil((length - overlap) / (maxSide - overlap));
+  const step = (length - maxSide) / (count - 1);
+  return Array.from({ length: count }, (_, i) => [Math.round(i * step), maxSide] as [number, number]);
+};
+
+/** Overlapping tiles no larger than `maxSide` on either side, covering the whole image. */
+export const planTiles = (width: number, height: number, maxSide: number): PixelRect[] =>
+  planAxis(height, maxSide).flatMap(([y, h]) => planAxis(width, maxSide).map(([x, w]) => ({ x, y, w, h })));
+
+export const cropPixels = (image: PixelBuffer, rect: PixelRect): PixelBuffer => {
+  const data = new Uint8ClampedArray(rect.w * rect.h * 4);
+  for (let row = 0; row < rect.h; row++) {
+    const start = ((rect.y + row) * image.width + rect.x) * 4;
+    data.set(image.data.subarray(start, start + rect.w * 4), row * rect.w * 4);
+  }
+  return { width: rect.w, height: rect.h, data };
+};
+
+/** Maps a 0-1000 box inside a tile to 0-1000 coordinates of the full image. */
+export const projectBox = (box: BoundingBox, tile: PixelRect, width: number, height: number): BoundingBox => ({
+  xmin: ((tile.x + (box.xmin / 1000) * tile.w) / width) * 1000,
+  xmax: ((tile.x + (box.xmax / 1000) * tile.w) / width) * 1000,
+  ymin: ((tile.y + (box.ymin / 1000) * tile.h) / height) * 1000,
+  ymax: ((tile.y + (box.ymax / 1000) * tile.h) / height) * 1000,
+});
+
+const overlapOfSmaller = (a: BoundingBox, b: BoundingBox) => {
+  const smaller = Math.min(boxArea(a), boxArea(b));
+  return smaller > 0 ? intersectionArea(a, b) / smaller : 0;
+};
+
+/**
+ * Non-maximum suppression per category (finding type) for findings from
+ * overlapping tiles. The most severe, then largest, box is kept and grown to
+ * cover the duplicates it absorbs, since a tile edge may have cut them short.
+ */
+export const mergeTileFindings = (risks: RiskItem[]): RiskItem[] => {
+  const kept: RiskItem[] = [];
+  const sorted = [...risks].sort((a, b) =>
+    SEVERITY[b.riskLevel] - SEVERITY[a.riskLevel]
+    || (b.box_2d ? boxArea(b.box_2d) : 0) - (a.box_2d ? boxArea(a.box_2d) : 0)
+  );
+
+  sorted.forEach(risk => {
+    const category = risk.type.trim().toLowerCase();
+    const duplicateIndex = kept.findIndex(k => {
+      if (k.type.trim().toLowerCase() !== category) return false;
+      // Box-less findings describe the whole image; one per category is enough
+      if (!k.box_2d || !risk.box_2d) return !k.box_2d && !risk.box_2d;
+      return overlapOfSmaller(k.box_2d, risk.box_2d) >= DUPLICATE_OVERLAP;
+    });
+
+    if (duplicateIndex === -1) {
+      kept.push(risk);
+    } else if (risk.box_2d) {
+      const existing = kept[duplicateIndex];
+      kept[duplicateIndex] = { ...existing, box_2d: unionBox([existing.box_2d!, risk.box_2d]) };
+    }
+  });
+
+  return kept;
+};